@@ -0,0 +1,189 @@
+/**
+* answerQuestion.ts
+*
+* Shared AI answer pipeline used by `onMessage` and the `/ask` command.
+*
+* Steps:
+*   1. Optionally fetch the surrounding Chat thread for context.
+*   2. Trim the thread to fit the prompt budget (VEN-45 context window) the
+*      context policy allows for the model and space, counting tokens with
+*      the model's estimator and optionally summarising the pruned span.
+*   3. Map the selected messages onto role-based turns – the bot's own
+*      messages become assistant turns, everyone else's named user turns –
+*      appending the explicit question (if any) as the final user turn.
+*   4. Call the LLM abstraction and return the generated text – or, via
+*      `streamAnswer()`, yield it fragment by fragment as it is generated.
+*
+* Heavy dependencies are loaded lazily via `utils/runtime.ts`; callers are
+* responsible for checking `isAiEnabled()` first.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { LlmMessage } from '../llm/index';
+import type { ContextWindowPolicy } from '../llm/contextWindow';
+import type { TokenEstimator } from '../llm/tokenEstimator';
+import { normaliseChatMessageText } from '../pipeline/ChatMessageNormaliser';
+import { loadChatService, loadLlm } from '../utils/runtime';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AnswerQuestionInput {
+  /** Explicit question text (e.g. `/ask` argument). Appended as the last turn. */
+  question?: string;
+  /** Thread to pull conversation context from. */
+  threadName?: string;
+  /**
+  * Message resource names to leave out of the thread context – typically the
+  * `/ask` message itself, which would otherwise duplicate `question`, and the
+  * bot's own placeholder for the reply being prepared.
+  */
+  excludeMessageNames?: string[];
+  /** Display name of the person asking. Defaults to `User`. */
+  askerName?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SYSTEM_INST = 'You are a helpful and concise AI assistant.';
+
+// How much thread history fits is decided per model and space by the
+// context policy (`llm/contextPolicy.ts`): the model's context window minus
+// the reply tokens. Everything else – system instruction, question, role /
+// name framing and reply priming – is counted by the provider's token
+// estimator, and the remainder is available for *conversation history*.
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function userTurn(content: string, name?: string): LlmMessage {
+  return name ? { role: 'user', content, name } : { role: 'user', content };
+}
+
+/**
+* The turn a thread message becomes – none for messages without text.
+* Summaries of pruned spans have no sender and become unnamed user turns.
+*/
+function threadTurn(msg: any): LlmMessage | undefined {
+  if (!msg.text) return undefined;
+  return msg.isAiBot ? { role: 'assistant', content: msg.text } : userTurn(msg.text, msg.sender?.displayName);
+}
+
+/**
+* Fetch the thread and select the subset of messages whose turns fit
+* `budget.maxTokens` tokens.
+*/
+async function loadThreadContext(
+  threadName: string,
+  excludeMessageNames: string[],
+  budget: ContextWindowPolicy,
+  estimator: TokenEstimator,
+): Promise<any[]> {
+  const { getThreadMessages } = await loadChatService();
+
+  // Dynamically import the lightweight utility (no heavy deps). It falls
+  // back to plain `buildContextWindow()` unless CONTEXT_SUMMARY is set.
+  const { buildSummarisedContextWindow } = await import('../llm/contextSummary');
+
+  // Fetch the **full** thread so the contextWindow util can pick the best
+  // subset according to the first+latest10+budget heuristic.
+  // We omit the optional `limit` argument so the service falls back to its
+  // internal paging logic which fetches all pages in chunks of 100 – thus
+  // avoiding any chance of the literal string "Infinity" leaking into the
+  // upstream HTTP query.
+  // Normalise Chat markup and mentions so the prompt reads as plain Markdown.
+  const fullThread = (await getThreadMessages(threadName))
+    .filter((m) => !excludeMessageNames.includes(m.name))
+    .map((m) => ({ ...m, text: normaliseChatMessageText(m) }));
+
+  return buildSummarisedContextWindow(fullThread, { ...budget, maxTokens: Math.max(budget.maxTokens, 0) }, {
+    threadName,
+    tokenCost: (msg) => {
+      const turn = threadTurn(msg);
+      return turn ? estimator.countMessage(turn) : 0;
+    },
+  });
+}
+
+/**
+* Map thread messages (and an optional trailing question) onto the system,
+* user and assistant turns sent to the LLM. Speaker names travel in the
+* `name` field rather than the text, so they cannot impersonate other turns.
+*/
+export function buildMessages(messages: any[], input: AnswerQuestionInput = {}): LlmMessage[] {
+  const turns: LlmMessage[] = [{ role: 'system', content: SYSTEM_INST }];
+
+  for (const msg of messages) {
+    const turn = threadTurn(msg);
+    if (turn) turns.push(turn);
+  }
+
+  if (input.question) {
+    turns.push(userTurn(input.question, input.askerName));
+  }
+
+  return turns;
+}
+
+/**
+* Thread context (if any) plus the question, as LLM turns, and the reply
+* token limit of the context policy.
+*/
+async function prepareRequest(input: AnswerQuestionInput): Promise<{ messages: LlmMessage[]; maxTokens: number }> {
+  if (!input.question && !input.threadName) {
+    throw new Error('answerQuestion requires a question or a thread.');
+  }
+
+  // Size the prompt so that every target of the fallback chain can take it.
+  const { candidateTargets } = await loadLlm();
+  const { resolveContextPolicy, spaceOfThread } = await import('../llm/contextPolicy');
+  const targets = candidateTargets();
+  const policy = resolveContextPolicy(targets, input.threadName && spaceOfThread(input.threadName));
+
+  if (!input.threadName) {
+    return { messages: buildMessages([], input), maxTokens: policy.maxReplyTokens };
+  }
+
+  // The system instruction, the question and the reply priming are always sent.
+  const { getChainTokenEstimator } = await import('../llm/tokenEstimator');
+  const estimator = getChainTokenEstimator(targets);
+  const fixedTokens = buildMessages([], input).reduce((sum, turn) => sum + estimator.countMessage(turn), 0);
+  const historyBudget = { ...policy, maxTokens: policy.maxTokens - estimator.replyPriming - fixedTokens };
+
+  const context = await loadThreadContext(input.threadName, input.excludeMessageNames ?? [], historyBudget, estimator);
+  return { messages: buildMessages(context, input), maxTokens: policy.maxReplyTokens };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Generate an AI answer for a question and/or thread.
+*
+* @throws {Error} When neither a question nor a thread is supplied, or when the
+*                 Chat / LLM calls fail.
+*/
+export async function answerQuestion(input: AnswerQuestionInput): Promise<string> {
+  const { messages, maxTokens } = await prepareRequest(input);
+  const { generateChat } = await loadLlm();
+  return generateChat(messages, { maxTokens });
+}
+
+/**
+* Streaming variant of `answerQuestion()` – yields answer fragments as the
+* LLM produces them.
+*
+* @throws {Error} Same conditions as `answerQuestion()`.
+*/
+export async function* streamAnswer(input: AnswerQuestionInput): AsyncGenerator<string> {
+  const { messages, maxTokens } = await prepareRequest(input);
+  const { streamChat } = await loadLlm();
+  yield* streamChat(messages, { maxTokens });
+}
+
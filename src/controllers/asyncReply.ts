@@ -0,0 +1,223 @@
+/**
+* asyncReply.ts
+*
+* Asynchronous reply mode: acknowledge the Chat event immediately and post the
+* real answer later through the Chat REST API.
+*
+* Google Chat waits ~30 s for a synchronous response. Fetching a long thread
+* plus an LLM round-trip can exceed that window, so when `ASYNC_REPLIES=true`
+* the AI handlers post a "Thinking…" placeholder through the Chat API, return
+* an empty synchronous response and continue the work in the background. The
+* placeholder is then edited into the finished reply (or an error card), so
+* no acknowledgement is left behind in the thread.
+*
+* With `STREAM_REPLIES=true` the answer is streamed instead: the placeholder
+* is edited in place (at most every `STREAM_UPDATE_INTERVAL_MS`) as LLM tokens
+* arrive, finishing with the full reply payload.
+*
+* The placeholder is posted before the thread is read, so `produce()` and
+* `stream()` receive its message name to leave it out of the prompt.
+*
+* Background work relies on the Node.js event loop outliving the HTTP
+* response, so both modes are only honoured under Node.js. Under Apps Script
+* the handlers keep answering synchronously.
+*/
+
+import { getConfig } from '../config/index';
+import { error as logError, warn as logWarn } from '../utils/logger';
+import { IS_NODE, loadChatService } from '../utils/runtime';
+import { buildErrorMessage } from './cards';
+import type { MessagePatch } from '../services/GoogleChatService';
+import type { ChatResponse } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Placeholder shown while the answer is prepared. */
+export const THINKING_TEXT = 'Thinking…';
+
+/** Default minimum gap between in-place edits of a streamed reply. */
+const DEFAULT_STREAM_UPDATE_INTERVAL_MS = 500;
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+/** In-flight background replies – exposed via `flushAsyncReplies()`. */
+const pending = new Set<Promise<void>>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Whether handlers should acknowledge first and reply via the Chat API. */
+export function isAsyncReplyEnabled(): boolean {
+  return IS_NODE && getConfig('ASYNC_REPLIES', { required: false }) === 'true';
+}
+
+/** Whether handlers should stream answers into an edited Chat message. */
+export function isStreamingReplyEnabled(): boolean {
+  return IS_NODE && getConfig('STREAM_REPLIES', { required: false }) === 'true';
+}
+
+export interface AsyncReplyOptions {
+  /** Space to post the answer into – e.g. `spaces/AAA`. */
+  spaceName: string;
+  /** Thread to reply in. When omitted the answer starts a new thread. */
+  threadName?: string;
+  /**
+  * Produces the final reply payload (text and/or cardsV2). Receives the
+  * placeholder's message name so the thread context can leave it out.
+  */
+  produce: (placeholderName: string) => Promise<ChatResponse>;
+  /** Label used in error logs. */
+  label?: string;
+}
+
+/**
+* Post a placeholder, run `produce()` in the background and edit the
+* placeholder into its result. Returns the (empty) synchronous response – the
+* placeholder is the visible reply.
+*/
+export function replyAsync(opts: AsyncReplyOptions): ChatResponse {
+  const job = deliver(opts).finally(() => {
+    pending.delete(job);
+  });
+  pending.add(job);
+
+  return {};
+}
+
+export interface StreamingReplyOptions {
+  /** Space to post the answer into – e.g. `spaces/AAA`. */
+  spaceName: string;
+  /** Thread to reply in. When omitted the answer starts a new thread. */
+  threadName?: string;
+  /**
+  * Produces the answer as text fragments. Receives the placeholder's message
+  * name so the thread context can leave the placeholder out – it is posted
+  * before the thread is read.
+  */
+  stream: (placeholderName: string) => AsyncIterable<string>;
+  /** Builds the final reply payload (text and/or cardsV2) from the full text. */
+  finalise: (text: string) => ChatResponse;
+  /** Label used in error logs. */
+  label?: string;
+}
+
+/**
+* Post a placeholder, stream the answer into it in the background and return
+* the (empty) synchronous response – the placeholder is the visible reply.
+*/
+export function replyStreaming(opts: StreamingReplyOptions): ChatResponse {
+  const job = deliverStreaming(opts).finally(() => {
+    pending.delete(job);
+  });
+  pending.add(job);
+
+  return {};
+}
+
+/** Resolve once every in-flight background reply has settled. */
+export async function flushAsyncReplies(): Promise<void> {
+  while (pending.size) {
+    await Promise.all(Array.from(pending));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A posted placeholder message and the thread it landed in. */
+interface Placeholder {
+  name: string;
+  threadName?: string;
+}
+
+/** Post the "Thinking…" placeholder; `undefined` (after logging) on failure. */
+async function postPlaceholder(spaceName: string, threadName?: string): Promise<Placeholder | undefined> {
+  try {
+    const { createMessage } = await loadChatService();
+    const thread = threadName ? { name: threadName } : undefined;
+    const posted = await createMessage(spaceName, { text: THINKING_TEXT, thread });
+    if (!posted?.name) throw new Error('The Chat API returned no message name');
+    // The known thread lets every edit invalidate just that cached thread.
+    return { name: posted.name, threadName: threadName ?? posted.thread?.name };
+  } catch (err) {
+    // The synchronous response has already been sent – nothing left to tell
+    // the user through. Log so the failure is visible in Cloud Logging.
+    logError('Failed to post reply placeholder', { err, spaceName, threadName });
+    return undefined;
+  }
+}
+
+/** Replace the placeholder's text and cards with the reply payload. */
+async function finalisePlaceholder(placeholder: Placeholder, payload: ChatResponse): Promise<void> {
+  const patch: MessagePatch = {};
+  if (typeof payload.text === 'string') patch.text = payload.text;
+  if (Array.isArray(payload.cardsV2)) patch.cardsV2 = payload.cardsV2;
+
+  try {
+    const { updateMessage } = await loadChatService();
+    await updateMessage(placeholder.name, patch, ['text', 'cardsV2'], placeholder.threadName);
+  } catch (err) {
+    logError('Failed to finalise reply', { err, messageName: placeholder.name });
+  }
+}
+
+async function deliver(opts: AsyncReplyOptions): Promise<void> {
+  const placeholder = await postPlaceholder(opts.spaceName, opts.threadName);
+  if (!placeholder) return;
+
+  let payload: ChatResponse;
+  try {
+    payload = await opts.produce(placeholder.name);
+  } catch (err) {
+    logError(`${opts.label ?? 'async reply'} error`, { err });
+    payload = buildErrorMessage('Sorry - I encountered an error while replying.');
+  }
+
+  await finalisePlaceholder(placeholder, payload);
+}
+
+function streamUpdateIntervalMs(): number {
+  const parsed = Number(getConfig('STREAM_UPDATE_INTERVAL_MS', { required: false }));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_STREAM_UPDATE_INTERVAL_MS;
+}
+
+async function deliverStreaming(opts: StreamingReplyOptions): Promise<void> {
+  const placeholder = await postPlaceholder(opts.spaceName, opts.threadName);
+  if (!placeholder) return;
+
+  const intervalMs = streamUpdateIntervalMs();
+  let text = '';
+  let shown = '';
+  let lastUpdate = Date.now();
+
+  let payload: ChatResponse;
+  try {
+    const { updateMessage } = await loadChatService();
+    for await (const fragment of opts.stream(placeholder.name)) {
+      text += fragment;
+      if (Date.now() - lastUpdate < intervalMs || text.trim() === shown) continue;
+
+      shown = text.trim();
+      lastUpdate = Date.now();
+      try {
+        await updateMessage(placeholder.name, { text: shown }, 'text', placeholder.threadName);
+      } catch (err) {
+        // A missed intermediate edit is harmless – the final edit catches up.
+        logWarn('Failed to update streaming reply', { err, messageName: placeholder.name });
+      }
+    }
+    if (!text.trim()) throw new Error('The answer stream ended without any text');
+    payload = opts.finalise(text);
+  } catch (err) {
+    logError(`${opts.label ?? 'streaming reply'} error`, { err });
+    payload = buildErrorMessage('Sorry - I encountered an error while replying.');
+  }
+
+  await finalisePlaceholder(placeholder, payload);
+}
@@ -0,0 +1,102 @@
+/**
+* cardActions.ts
+*
+* Dispatch layer for `CARD_CLICKED` events – i.e. button presses on cards the
+* bot previously posted.
+*
+* Card buttons carry an action method name plus a list of string parameters.
+* Depending on the Chat event format these arrive either as:
+*   – `event.action.actionMethodName` + `event.action.parameters[]`
+*     (`{ key, value }` pairs), or
+*   – `event.common.invokedFunction` + `event.common.parameters`
+*     (plain object).
+*
+* Handlers register under the action method name and receive the parameters
+* normalised into a flat `Record<string, string>`.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { ChatEvent, ChatResponse } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CardActionContext {
+  /** Raw `CARD_CLICKED` event. */
+  event: ChatEvent;
+  /** Action parameters keyed by name. */
+  parameters: Record<string, string>;
+}
+
+export type CardActionHandler = (
+  ctx: CardActionContext,
+) => Promise<ChatResponse> | ChatResponse;
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+const handlers = new Map<string, CardActionHandler>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Register a handler for a card action method.
+*
+* @throws {Error} When the action name is already taken.
+*/
+export function registerCardAction(actionName: string, handler: CardActionHandler): void {
+  if (handlers.has(actionName)) {
+    throw new Error(`Card action "${actionName}" is already registered.`);
+  }
+  handlers.set(actionName, handler);
+}
+
+/** Extract the invoked action method name from a `CARD_CLICKED` event. */
+export function getActionName(event: ChatEvent): string | undefined {
+  return event?.action?.actionMethodName ?? event?.common?.invokedFunction ?? undefined;
+}
+
+/** Normalise the action parameters of a `CARD_CLICKED` event. */
+export function getActionParameters(event: ChatEvent): Record<string, string> {
+  const out: Record<string, string> = {};
+
+  const list = event?.action?.parameters;
+  if (Array.isArray(list)) {
+    list.forEach((p: any) => {
+      if (p && typeof p.key === 'string') out[p.key] = String(p.value ?? '');
+    });
+  }
+
+  const common = event?.common?.parameters;
+  if (common && typeof common === 'object') {
+    Object.entries(common).forEach(([k, v]) => {
+      out[k] = String(v ?? '');
+    });
+  }
+
+  return out;
+}
+
+/**
+* Resolve and execute the handler for a `CARD_CLICKED` event.
+*
+* Returns `undefined` when no handler matches so the caller can decide how to
+* report unknown actions.
+*/
+export async function runCardAction(event: ChatEvent): Promise<ChatResponse | undefined> {
+  const actionName = getActionName(event);
+  const handler = actionName ? handlers.get(actionName) : undefined;
+  if (!handler) return undefined;
+
+  return handler({ event, parameters: getActionParameters(event) });
+}
+
+/** Remove every registered handler. Intended for tests. */
+export function clearCardActions(): void {
+  handlers.clear();
+}
@@ -0,0 +1,185 @@
+/**
+* cards.ts
+*
+* Typed builder for Google Chat **Cards v2** payloads.
+*
+* Chat messages can carry a `cardsV2` array next to (or instead of) plain
+* `text`. The helpers below produce the JSON structures documented at
+* https://developers.google.com/workspace/chat/api/reference/rest/v1/cards
+* while keeping call-sites short and type-checked:
+*
+* ```ts
+* buildCardMessage({
+*   text: 'Captured!',
+*   fallbackText: 'Captured thread BBB',
+*   card: {
+*     header: { title: 'Knowledge captured' },
+*     sections: [
+*       section([decoratedText('spaces/AAA/threads/BBB', { topLabel: 'Source' })]),
+*       section([buttonList([{ text: 'Helpful', action: 'markHelpful', parameters: { v: 'yes' } }])]),
+*     ],
+*   },
+* });
+* ```
+*
+* Only the widget subset used by the bot is modelled – extend the union when a
+* new widget type is needed.
+*/
+
+import type { ChatResponse } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CardHeader {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+}
+
+export interface OnClick {
+  action?: {
+    function: string;
+    parameters?: Array<{ key: string; value: string }>;
+  };
+  openLink?: { url: string };
+}
+
+export interface ButtonSpec {
+  text: string;
+  /** Card action method name handled by `cardActions.ts`. */
+  action?: string;
+  /** String parameters forwarded to the card action. */
+  parameters?: Record<string, string>;
+  /** Open a URL instead of invoking an action. */
+  url?: string;
+}
+
+export type Widget =
+  | {
+      decoratedText: {
+        text: string;
+        topLabel?: string;
+        bottomLabel?: string;
+        wrapText?: boolean;
+        button?: { text: string; onClick: OnClick };
+      };
+    }
+  | { textParagraph: { text: string } }
+  | { buttonList: { buttons: Array<{ text: string; onClick: OnClick }> } }
+  | { textInput: { name: string; label: string; hintText?: string } }
+  | { divider: Record<string, never> };
+
+export interface CardSection {
+  header?: string;
+  collapsible?: boolean;
+  widgets: Widget[];
+}
+
+export interface Card {
+  header?: CardHeader;
+  sections: CardSection[];
+}
+
+// ---------------------------------------------------------------------------
+// Widget helpers
+// ---------------------------------------------------------------------------
+
+/** Convert a `ButtonSpec` into the Chat `onClick` structure. */
+export function toOnClick(button: Pick<ButtonSpec, 'action' | 'parameters' | 'url'>): OnClick {
+  if (button.url) {
+    return { openLink: { url: button.url } };
+  }
+
+  if (!button.action) {
+    throw new Error('Card buttons need either an action or a url.');
+  }
+
+  const parameters = Object.entries(button.parameters ?? {}).map(([key, value]) => ({ key, value }));
+  return {
+    action: {
+      function: button.action,
+      ...(parameters.length ? { parameters } : {}),
+    },
+  };
+}
+
+export function decoratedText(
+  text: string,
+  opts: { topLabel?: string; bottomLabel?: string; wrapText?: boolean; button?: ButtonSpec } = {},
+): Widget {
+  const { button, ...rest } = opts;
+  return {
+    decoratedText: {
+      text,
+      ...rest,
+      ...(button ? { button: { text: button.text, onClick: toOnClick(button) } } : {}),
+    },
+  };
+}
+
+export function textParagraph(text: string): Widget {
+  return { textParagraph: { text } };
+}
+
+export function buttonList(buttons: ButtonSpec[]): Widget {
+  return {
+    buttonList: {
+      buttons: buttons.map((b) => ({ text: b.text, onClick: toOnClick(b) })),
+    },
+  };
+}
+
+export function textInput(name: string, label: string, hintText?: string): Widget {
+  return { textInput: { name, label, ...(hintText ? { hintText } : {}) } };
+}
+
+export function divider(): Widget {
+  return { divider: {} };
+}
+
+export function section(widgets: Widget[], header?: string): CardSection {
+  return { ...(header ? { header } : {}), widgets };
+}
+
+// ---------------------------------------------------------------------------
+// Message helpers
+// ---------------------------------------------------------------------------
+
+/**
+* Wrap a card into a Chat message payload.
+*
+* @param opts.text         Optional plain text shown above the card.
+* @param opts.fallbackText Plain-text summary used by notifications and
+*                          clients that cannot render cards.
+* @param opts.cardId       Stable identifier – defaults to `card`.
+*/
+export function buildCardMessage(opts: {
+  card: Card;
+  text?: string;
+  fallbackText?: string;
+  cardId?: string;
+}): ChatResponse {
+  const fallbackText = opts.fallbackText ?? opts.text;
+  return {
+    ...(opts.text ? { text: opts.text } : {}),
+    ...(fallbackText ? { fallbackText } : {}),
+    cardsV2: [{ cardId: opts.cardId ?? 'card', card: opts.card }],
+  };
+}
+
+/**
+* Standard error reply: the short summary stays in `text` so it is always
+* visible, the card adds the detail.
+*/
+export function buildErrorMessage(summary: string, detail?: string): ChatResponse {
+  return buildCardMessage({
+    text: detail ? `${summary} ${detail}` : summary,
+    cardId: 'error',
+    card: {
+      header: { title: 'Something went wrong' },
+      sections: [section([textParagraph(detail || summary)])],
+    },
+  });
+}
@@ -0,0 +1,187 @@
+/**
+* commandRegistry.ts
+*
+* Declarative registry for Google Chat slash commands.
+*
+* Each command declares:
+*   – `id`       → numeric `commandId` from the `appsscript.json` manifest
+*                  (omitted for legacy text-only commands such as `ping`).
+*   – `name`     → human-readable command name without the leading slash.
+*   – `runtime`  → which runtime(s) the handler can execute in.
+*   – `parseArgs`→ optional parser for the free-text `argumentText`.
+*   – `handler`  → business logic returning the Chat response payload.
+*
+* The entry points in `ChatBot.ts` (`onSlashCommand`, `doPost`) resolve
+* commands through `findCommand()` instead of a hard-coded `switch`, so adding
+* a command no longer means touching the dispatcher.
+*
+* Google Chat serialises `commandId` as a **string** in event payloads even
+* though the manifest declares it as a number. `normaliseCommandKey()` folds
+* both representations onto the same key so `2` and `"2"` resolve to the same
+* command.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { error as logError } from '../utils/logger';
+import { currentRuntime, RuntimeKind } from '../utils/runtime';
+import { buildErrorMessage } from './cards';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ChatEvent = any; // Inline type placeholder – Apps Script runtime provides dynamic payload.
+
+export type ChatResponse = Record<string, unknown>;
+
+/** Runtime requirement declared by a command. */
+export type CommandRuntime = RuntimeKind | 'any';
+
+export interface CommandContext<TArgs> {
+  /** Raw Chat event that triggered the command. */
+  event: ChatEvent;
+  /** Arguments produced by the command's `parseArgs`. */
+  args: TArgs;
+  /** Runtime the handler is executing in. */
+  runtime: RuntimeKind;
+}
+
+export interface SlashCommand<TArgs = string> {
+  /** Numeric `commandId` from the manifest. Optional for legacy commands. */
+  id?: number;
+  /** Command name without the leading slash – e.g. `capture-knowledge`. */
+  name: string;
+  /** Short description used in help output. */
+  description?: string;
+  /** Runtime(s) the handler supports. Defaults to `any`. */
+  runtime?: CommandRuntime;
+  /**
+   * Convert the raw `argumentText` into typed arguments. When omitted the
+   * trimmed argument text is passed through unchanged.
+   */
+  parseArgs?: (argumentText: string, event: ChatEvent) => TArgs;
+  /** Execute the command and return the Chat response payload. */
+  handler: (ctx: CommandContext<TArgs>) => Promise<ChatResponse> | ChatResponse;
+}
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+const commandsByKey = new Map<string, SlashCommand<any>>();
+const registeredCommands: SlashCommand<any>[] = [];
+
+/**
+* Map a numeric id, numeric string, or command name onto the lookup key used
+* by the registry. Returns `undefined` for empty / unusable input.
+*/
+export function normaliseCommandKey(idOrName: unknown): string | undefined {
+  if (typeof idOrName === 'number') {
+    return Number.isFinite(idOrName) ? `id:${Math.trunc(idOrName)}` : undefined;
+  }
+
+  if (typeof idOrName !== 'string') return undefined;
+
+  const trimmed = idOrName.trim();
+  if (!trimmed) return undefined;
+
+  if (/^\d+$/.test(trimmed)) return `id:${Number(trimmed)}`;
+
+  return `name:${trimmed.replace(/^\//, '').toLowerCase()}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Add a command to the registry.
+*
+* @throws {Error} When another command already claims the same id or name.
+*/
+export function registerCommand<TArgs>(command: SlashCommand<TArgs>): void {
+  const keys = [normaliseCommandKey(command.name)];
+  if (command.id !== undefined) keys.push(normaliseCommandKey(command.id));
+
+  for (const key of keys) {
+    if (!key) {
+      throw new Error(`Invalid slash command definition "${command.name}".`);
+    }
+    if (commandsByKey.has(key)) {
+      throw new Error(`Slash command "${command.name}" conflicts with an existing registration.`);
+    }
+  }
+
+  keys.forEach((key) => commandsByKey.set(key as string, command));
+  registeredCommands.push(command);
+}
+
+/** Look up a command by numeric id, numeric string, or name. */
+export function findCommand(idOrName: unknown): SlashCommand<any> | undefined {
+  const key = normaliseCommandKey(idOrName);
+  return key ? commandsByKey.get(key) : undefined;
+}
+
+/** Return all registered commands in registration order. */
+export function listCommands(): ReadonlyArray<SlashCommand<any>> {
+  return registeredCommands.slice();
+}
+
+/** Whether the command can execute in the given runtime. */
+export function supportsRuntime(
+  command: SlashCommand<any>,
+  runtime: RuntimeKind = currentRuntime(),
+): boolean {
+  const required = command.runtime ?? 'any';
+  return required === 'any' || required === runtime;
+}
+
+/** Extract the `commandId` from a Chat event, if any. */
+export function getEventCommandId(event: ChatEvent): number | string | undefined {
+  return event?.message?.slashCommand?.commandId;
+}
+
+/**
+* Resolve and execute the command referenced by a Chat slash-command event.
+*
+* Returns `undefined` when no registered command matches so the caller can
+* decide how to report unknown commands.
+*/
+export async function runCommand(event: ChatEvent): Promise<ChatResponse | undefined> {
+  const command = findCommand(getEventCommandId(event));
+  if (!command) return undefined;
+
+  const runtime = currentRuntime();
+  if (!supportsRuntime(command, runtime)) {
+    return {
+      text: `/${command.name} is not available in this deployment.`,
+    };
+  }
+
+  const argumentText: string = event?.message?.argumentText ?? '';
+  let args: unknown;
+  try {
+    args = command.parseArgs
+      ? command.parseArgs(argumentText, event)
+      : argumentText.trim();
+  } catch (err) {
+    // Bad input must reach the user as a reply, not escape the dispatcher.
+    logError(`/${command.name} argument error`, { err });
+    return buildErrorMessage(
+      `Sorry - I could not understand the arguments for /${command.name}.`,
+      err instanceof Error ? err.message : undefined,
+    );
+  }
+
+  return command.handler({ event, args, runtime });
+}
+
+/**
+* Remove every registered command. Intended for tests that need an isolated
+* registry.
+*/
+export function clearCommands(): void {
+  commandsByKey.clear();
+  registeredCommands.length = 0;
+}
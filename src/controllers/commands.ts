@@ -0,0 +1,184 @@
+/**
+* commands.ts
+*
+* Built-in slash commands. Importing this module registers every command with
+* the shared registry in `commandRegistry.ts`.
+*
+* NOTE: Handlers must keep Node-only dependencies behind the lazy loaders in
+* `utils/runtime.ts` – this module is bundled into the Apps Script output.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { error as logError } from '../utils/logger';
+import { ensureSheetsIntegration, isAiEnabled, loadChatService } from '../utils/runtime';
+import { answerQuestion, AnswerQuestionInput, streamAnswer } from './answerQuestion';
+import { isAsyncReplyEnabled, isStreamingReplyEnabled, replyAsync, replyStreaming } from './asyncReply';
+import { buildErrorMessage } from './cards';
+import { buildAnswerMessage, buildCaptureMessage } from './replyCards';
+import { registerCommand, SlashCommand } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// /ask <question>
+// ---------------------------------------------------------------------------
+
+export const askCommand: SlashCommand = {
+  id: 1,
+  name: 'ask',
+  description: 'ask the assistant a question (uses the surrounding thread as context).',
+  runtime: 'any',
+  async handler({ event, args: question }) {
+    if (!question) {
+      return { text: 'Usage: /ask <your question>' };
+    }
+
+    if (!isAiEnabled()) {
+      return { text: 'AI reply path disabled for MVP.' };
+    }
+
+    const threadName: string | undefined = event?.message?.thread?.name;
+    // Leave the `/ask` message and any reply placeholder out of the context.
+    const input = (placeholderName?: string): AnswerQuestionInput => ({
+      question,
+      threadName,
+      excludeMessageNames: [event?.message?.name, placeholderName].filter((n): n is string => !!n),
+      askerName: event?.user?.displayName,
+    });
+    const produceAnswer = async (placeholderName?: string) =>
+      buildAnswerMessage(await answerQuestion(input(placeholderName)), { threadName });
+
+    // Streaming mode – post a placeholder and edit it as tokens arrive.
+    const spaceName: string | undefined = event?.space?.name;
+    if (spaceName && isStreamingReplyEnabled()) {
+      return replyStreaming({
+        spaceName,
+        threadName,
+        stream: (placeholderName) => streamAnswer(input(placeholderName)),
+        finalise: (text) => buildAnswerMessage(text, { threadName }),
+        label: '/ask',
+      });
+    }
+
+    // Async mode – post a placeholder now, edit it into the answer later.
+    if (spaceName && isAsyncReplyEnabled()) {
+      return replyAsync({ spaceName, threadName, produce: produceAnswer, label: '/ask' });
+    }
+
+    try {
+      return await produceAnswer();
+    } catch (err: any) {
+      logError('/ask error', { err });
+      return buildErrorMessage('Sorry - I encountered an error while replying.');
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// VEN-25 – /capture-knowledge
+// ---------------------------------------------------------------------------
+
+export const captureKnowledgeCommand: SlashCommand = {
+  id: 2,
+  name: 'capture-knowledge',
+  description: 'archive the current conversation context in the team knowledge spreadsheet.',
+  runtime: 'node',
+  async handler({ event }) {
+    try {
+      const spaceName: string | undefined = event?.space?.name;
+      const threadName: string | undefined = event?.message?.thread?.name;
+
+      if (!spaceName) {
+        throw new Error('Missing space identifier in event.');
+      }
+      if (!threadName) {
+        throw new Error(
+          'Missing thread identifier – run /capture-knowledge inside a threaded conversation.'
+        );
+      }
+
+      const spaceId = spaceName.split('/').pop() || spaceName;
+      const threadId = threadName.split('/').pop() || threadName;
+      const source = `${spaceId}/${threadId}`;
+      const tags = ['chat'];
+
+      // Google Chat REST client (memoised across requests)
+      const { getThreadMessages } = await loadChatService();
+
+      // Lightweight helpers (no external deps)
+      const { parseThreadMessages, serialiseThreadKnowledgeMarkdown } =
+        await import('../pipeline/ThreadDataProcessor');
+      const { toRawThreadMessage } = await import('../pipeline/ChatMessageNormaliser');
+
+      // Fetch the **full** thread (auto-paged beyond 100-message API cap).
+      const fullThread = await getThreadMessages(threadName);
+
+      // Normalise Chat markup / mentions and map onto the minimal shape
+      // expected by `parseThreadMessages()`.
+      const rawMessages = fullThread.map((m: any) => toRawThreadMessage(m));
+
+      const structured = parseThreadMessages(rawMessages);
+      const markdown = serialiseThreadKnowledgeMarkdown(structured);
+
+      // Short excerpt of the question for the confirmation card.
+      const preview = structured.originalQuestion.content.trim().slice(0, 120);
+
+      // --------------------------
+      // Write row to Google Sheets
+      // --------------------------
+
+      // Ensure Sheets helpers are loaded *after* we have serialised the
+      // content (serialisation is dependency-free and faster).
+      const sheets = await ensureSheetsIntegration();
+
+      if (sheets) {
+        try {
+          const knowledgeRow = sheets.formatCapturedKnowledge({
+            timestamp: new Date().toISOString(),
+            source,
+            content: markdown,
+            tags,
+          });
+
+          // Fire-and-forget to keep Chat latency low; errors are logged but
+          // do NOT bubble up to the slash-command response.
+          void sheets.appendRows([knowledgeRow]).catch((err) =>
+            logError('Sheets append error', { err })
+          );
+        } catch (sheetErr) {
+          logError('googleSheets integration error', { err: sheetErr });
+        }
+      }
+
+      return buildCaptureMessage({ spaceId, threadId, source, tags, preview });
+    } catch (err: any) {
+      logError('/capture-knowledge error', { err }); // Structured log
+      return buildErrorMessage(
+        'Sorry – I couldn’t capture the conversation context.',
+        err?.message || 'Unexpected error.',
+      );
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Example placeholder command – responds with pong.
+// ---------------------------------------------------------------------------
+
+export const pingCommand: SlashCommand = {
+  name: 'ping',
+  description: 'quick connectivity check (returns "pong").',
+  runtime: 'any',
+  handler: () => ({ text: 'pong' }),
+};
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+export const BUILT_IN_COMMANDS: ReadonlyArray<SlashCommand<any>> = [
+  askCommand,
+  captureKnowledgeCommand,
+  pingCommand,
+];
+
+BUILT_IN_COMMANDS.forEach((command) => registerCommand(command));
@@ -0,0 +1,126 @@
+/**
+* replyCards.ts
+*
+* Card layouts for the bot's standard replies, built on `cards.ts`:
+*   – `buildAnswerMessage()`  → AI answer + "Was this helpful?" buttons.
+*   – `buildCaptureMessage()` → `/capture-knowledge` confirmation showing the
+*                               captured source, tags and an "Open in sheet"
+*                               link.
+*
+* Also registers the `markHelpful` card action that records answer feedback.
+*/
+
+import { getConfig } from '../config/index';
+import { info as logInfo } from '../utils/logger';
+import {
+  buildCardMessage,
+  buttonList,
+  ButtonSpec,
+  decoratedText,
+  section,
+  textParagraph,
+} from './cards';
+import { registerCardAction } from './cardActions';
+import type { ChatResponse } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Card action invoked by the "Helpful" / "Not helpful" buttons. */
+export const HELPFUL_ACTION = 'markHelpful';
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+/** Link to the knowledge spreadsheet when `SHEETS_SPREADSHEET_ID` is set. */
+export function knowledgeSheetUrl(): string | undefined {
+  const id = getConfig('SHEETS_SPREADSHEET_ID', { required: false });
+  return id ? `https://docs.google.com/spreadsheets/d/${id}` : undefined;
+}
+
+/**
+* AI answer reply. The answer itself stays in `text` so it renders as a normal
+* chat message; the attached card only carries the feedback buttons.
+*/
+export function buildAnswerMessage(answer: string, opts: { threadName?: string } = {}): ChatResponse {
+  const parameters: Record<string, string> = opts.threadName ? { threadName: opts.threadName } : {};
+
+  return buildCardMessage({
+    text: answer,
+    cardId: 'answer-feedback',
+    card: {
+      sections: [
+        section([
+          buttonList([
+            { text: '👍 Helpful', action: HELPFUL_ACTION, parameters: { ...parameters, helpful: 'yes' } },
+            { text: '👎 Not helpful', action: HELPFUL_ACTION, parameters: { ...parameters, helpful: 'no' } },
+          ]),
+        ], 'Was this helpful?'),
+      ],
+    },
+  });
+}
+
+/** `/capture-knowledge` confirmation card. */
+export function buildCaptureMessage(opts: {
+  spaceId: string;
+  threadId: string;
+  source: string;
+  tags: string[];
+  preview?: string;
+}): ChatResponse {
+  const text = `Got it – captured context for thread ${opts.threadId} in space ${opts.spaceId}.`;
+
+  const details = [
+    decoratedText(opts.source, { topLabel: 'Source' }),
+    decoratedText(opts.tags.length ? opts.tags.join(', ') : '—', { topLabel: 'Tags' }),
+  ];
+  if (opts.preview) {
+    details.push(decoratedText(opts.preview, { topLabel: 'Question', wrapText: true }));
+  }
+
+  const buttons: ButtonSpec[] = [];
+  const sheetUrl = knowledgeSheetUrl();
+  if (sheetUrl) buttons.push({ text: 'Open in sheet', url: sheetUrl });
+
+  return buildCardMessage({
+    text,
+    cardId: 'capture-confirmation',
+    card: {
+      header: { title: 'Knowledge captured', subtitle: `Thread ${opts.threadId}` },
+      sections: [
+        section(details),
+        ...(buttons.length ? [section([buttonList(buttons)])] : []),
+      ],
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Card actions
+// ---------------------------------------------------------------------------
+
+registerCardAction(HELPFUL_ACTION, ({ event, parameters }) => {
+  const helpful = parameters.helpful === 'yes';
+
+  logInfo('Answer feedback', {
+    helpful,
+    threadName: parameters.threadName,
+    user: event?.user?.name,
+    message: event?.message?.name,
+  });
+
+  return buildCardMessage({
+    fallbackText: 'Thanks for the feedback!',
+    cardId: 'feedback-ack',
+    card: {
+      sections: [
+        section([
+          textParagraph(helpful ? 'Thanks – glad that helped!' : 'Thanks – we’ll use this to improve.'),
+        ]),
+      ],
+    },
+  });
+});
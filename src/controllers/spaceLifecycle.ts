@@ -0,0 +1,68 @@
+/**
+* spaceLifecycle.ts
+*
+* Handlers for the `ADDED_TO_SPACE` and `REMOVED_FROM_SPACE` Chat events.
+*
+* – When the bot is added we record installation metadata in the per-space
+*   store and greet the space with the manifest's post-installation prompt.
+* – When the bot is removed we drop any per-space state. Chat ignores the
+*   response to `REMOVED_FROM_SPACE`, so the handler returns an empty payload.
+*/
+
+import { info as logInfo } from '../utils/logger';
+import { clearSpaceState, updateSpaceState } from '../store/spaceState';
+import type { ChatEvent, ChatResponse } from './commandRegistry';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+* Mirrors `chat.postInstallationPrompt` in `appsscript.json`. The manifest is
+* not readable at runtime under Apps Script, so keep the two in sync by hand.
+*/
+export const POST_INSTALLATION_PROMPT = {
+  title: 'Thanks for installing Knowledge Assistant',
+  body: 'Type @KnowledgeAssistant <your-question> to get started.',
+} as const;
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+/** Build the welcome message posted when the bot joins a space or DM. */
+export function buildWelcomeText(event: ChatEvent): string {
+  const isDm = event?.space?.type === 'DM' || event?.space?.singleUserBotDm === true;
+  const greeting = isDm && event?.user?.displayName
+    ? `Hi ${event.user.displayName}! `
+    : '';
+
+  return `${greeting}${POST_INSTALLATION_PROMPT.title}. ${POST_INSTALLATION_PROMPT.body}`;
+}
+
+export function handleAddedToSpace(event: ChatEvent): ChatResponse {
+  const spaceName: string | undefined = event?.space?.name;
+
+  if (spaceName) {
+    updateSpaceState(spaceName, {
+      installedAt: event?.eventTime ?? new Date().toISOString(),
+      spaceType: event?.space?.type,
+      displayName: event?.space?.displayName,
+      installedBy: event?.user?.name,
+    });
+    logInfo('Bot added to space', { spaceName });
+  }
+
+  return { text: buildWelcomeText(event) };
+}
+
+export function handleRemovedFromSpace(event: ChatEvent): ChatResponse {
+  const spaceName: string | undefined = event?.space?.name;
+
+  if (spaceName) {
+    clearSpaceState(spaceName);
+    logInfo('Bot removed from space', { spaceName });
+  }
+
+  return {};
+}
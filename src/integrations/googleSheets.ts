@@ -7,12 +7,16 @@
 *     object into a flat array of cell values that matches the fixed column
 *     layout in the target sheet.
 *   - `appendRows()` → appends one or more rows to the configured spreadsheet
-*     with retry logic for simple rate-limit handling.
+*     with retry logic for simple rate-limit handling (backoff shared with the
+*     HTTP transport in utils/http.ts).
 *
 * The implementation relies on the "@googleapis/sheets" client library and
 * authenticates using Application Default Credentials. In local development
 * and CI this is normally provided by setting the env var
 * `GOOGLE_APPLICATION_CREDENTIALS` to point at a service-account JSON file.
+* It deliberately bypasses the shared transport in utils/http.ts: Sheets is
+* Node-only and needs googleapis for ADC with the Sheets scope anyway, so
+* errors surface as googleapis errors rather than `HTTP <status>` ones.
 *
 * The spreadsheet to write to is read from the env var
 * `SHEETS_SPREADSHEET_ID` **or** can be supplied explicitly via the optional
@@ -21,6 +25,7 @@
 
 import { google, sheets_v4 } from 'googleapis';
 import { getConfig } from '../config/index';
+import { backoffDelayMs, parseRetryAfter, sleep } from '../utils/http';
 
 // ---------------------------------------------------------------------------
 // Constants & types
@@ -102,7 +107,8 @@ export function formatCapturedKnowledge(entry: CapturedKnowledge): string[] {
 /**
 * Append one or more rows to the spreadsheet.
 *
-* Basic exponential-backoff retry handling is included for 429/5xx responses.
+* Exponential-backoff (with jitter / Retry-After) retry handling is included
+* for 429/5xx responses.
 */
 export async function appendRows(
   rows: string[][],
@@ -152,14 +158,17 @@ export async function appendRows(
         throw enrichedErr;
       }
 
-      // Only retry on rate limits (429) or server errors (>=500).
+      // Only retry on rate limits (429) or server errors (>=500). Unlike the
+      // transport default we do retry 5xx here: a duplicated append is easier
+      // to spot and clean up than a silently lost capture.
       const code: number | undefined = err?.response?.status ?? err?.code ?? err?.status;
       if (code && (code === 429 || code >= 500)) {
-        // Exponential back-off: 1s, 2s, 4s …
-        // `attempt` is incremented **before** computing the delay, so we need
-        // to subtract 1 to start at 1 second (2^0 * 1000).
-        const delayMs = Math.pow(2, attempt - 1) * 1000;
-        await new Promise((res) => setTimeout(res, delayMs));
+        // Same backoff as the shared HTTP transport: honour Retry-After,
+        // otherwise exponential with full jitter. `attempt` is incremented
+        // **before** computing the delay, so subtract 1 to start at 2^0.
+        const delayMs =
+          parseRetryAfter(err?.response?.headers?.['retry-after']) ?? backoffDelayMs(attempt - 1, 1000);
+        await sleep(delayMs);
         // eslint-disable-next-line no-continue
         continue;
       }
@@ -0,0 +1,177 @@
+/**
+* bpe.ts
+*
+* Byte-level BPE tokenizer compatible with OpenAI's tiktoken encodings
+* (`cl100k_base`, `o200k_base`). Runs unchanged in Node.js and Apps Script.
+*
+* The merge ranks come from the `js-tiktoken` package, whose tables are plain
+* JS modules and therefore bundle into the Apps Script build. They are
+* decoded on first use per encoding, so counts are exact in every runtime.
+*/
+
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/** Token (bytes as a Latin-1 string) → merge rank. */
+type Ranks = Map<string, number>;
+
+/** Shipped rank tables – lines of `<first rank> <base64 token> …`. */
+const SHIPPED_RANKS: Record<BpeEncoding, { bpe_ranks: string }> = {
+  cl100k_base: cl100kBase,
+  o200k_base: o200kBase,
+};
+
+// tiktoken's pre-tokenizer patterns; `(?i:…)` groups expanded for JS.
+const CONTRACTION = "'(?:[sStTdDmM]|[rR][eE]|[vV][eE]|[lL][lL])";
+
+const PATTERNS: Record<BpeEncoding, RegExp> = {
+  cl100k_base: new RegExp(
+    `${CONTRACTION}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    'gu',
+  ),
+  o200k_base: new RegExp(
+    [
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTION})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTION})?`,
+      '\\p{N}{1,3}',
+      ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+      '\\s*[\\r\\n]+',
+      '\\s+(?!\\S)',
+      '\\s+',
+    ].join('|'),
+    'gu',
+  ),
+};
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+/** Decoded (or registered) ranks per encoding. */
+const registry = new Map<BpeEncoding, Ranks>();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Base64 → Latin-1 byte string (no Buffer / Utilities dependency). */
+function decodeBase64(input: string): string {
+  let out = '';
+  let bits = 0;
+  let value = 0;
+  for (const ch of input) {
+    const idx = BASE64.indexOf(ch);
+    if (idx === -1) continue; // padding / whitespace
+    value = (value << 6) | idx;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out += String.fromCharCode((value >> bits) & 0xff);
+    }
+  }
+  return out;
+}
+
+/** UTF-8 encode into a Latin-1 byte string (one char per byte). */
+function utf8Bytes(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const cp = ch.codePointAt(0) as number;
+    if (cp < 0x80) {
+      out += ch;
+    } else if (cp < 0x800) {
+      out += String.fromCharCode(0xc0 | (cp >> 6), 0x80 | (cp & 0x3f));
+    } else if (cp < 0x10000) {
+      out += String.fromCharCode(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+    } else {
+      out += String.fromCharCode(
+        0xf0 | (cp >> 18),
+        0x80 | ((cp >> 12) & 0x3f),
+        0x80 | ((cp >> 6) & 0x3f),
+        0x80 | (cp & 0x3f),
+      );
+    }
+  }
+  return out;
+}
+
+/** tiktoken's rank-ordered pair merge; returns the number of tokens. */
+function bytePairCount(piece: string, ranks: Ranks): number {
+  if (ranks.has(piece)) return 1;
+
+  // Boundaries between parts; merge the lowest-ranked adjacent pair each round.
+  const parts: number[] = [];
+  for (let i = 0; i <= piece.length; i += 1) parts.push(i);
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    let best = Infinity;
+    let bestIdx = -1;
+    for (let i = 0; i < parts.length - 2; i += 1) {
+      const rank = ranks.get(piece.slice(parts[i], parts[i + 2]));
+      if (rank !== undefined && rank < best) {
+        best = rank;
+        bestIdx = i;
+      }
+    }
+    if (bestIdx === -1) break;
+    parts.splice(bestIdx + 1, 1);
+  }
+  return parts.length - 1;
+}
+
+/** Decode the shipped ranks of `encoding` on first use. */
+function ranksFor(encoding: BpeEncoding): Ranks {
+  const registered = registry.get(encoding);
+  if (registered) return registered;
+
+  const ranks: Ranks = new Map();
+  for (const line of SHIPPED_RANKS[encoding].bpe_ranks.split('\n')) {
+    const [, first, ...tokens] = line.split(' ');
+    tokens.forEach((token, i) => ranks.set(decodeBase64(token), Number(first) + i));
+  }
+  registry.set(encoding, ranks);
+  return ranks;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Replace the ranks of `encoding` with a tiktoken-format file's contents
+* (`<base64 token> <rank>` per line) – e.g. to count with custom ranks.
+*/
+export function registerBpeRanks(encoding: BpeEncoding, tiktokenFile: string): void {
+  const ranks: Ranks = new Map();
+  tiktokenFile.split('\n').forEach((line) => {
+    const [token, rank] = line.trim().split(/\s+/);
+    if (token && rank !== undefined) ranks.set(decodeBase64(token), Number(rank));
+  });
+  registry.set(encoding, ranks);
+}
+
+/** Drop registered ranks and go back to the shipped ones (tests). */
+export function clearBpeRanks(): void {
+  registry.clear();
+}
+
+/** Split text the way tiktoken does before applying merges. */
+export function preTokenize(text: string, encoding: BpeEncoding = 'cl100k_base'): string[] {
+  return text.match(PATTERNS[encoding]) ?? [];
+}
+
+/** Number of tokens `text` encodes to (special tokens are not recognised). */
+export function countBpeTokens(text: string, encoding: BpeEncoding = 'cl100k_base'): number {
+  if (!text) return 0;
+  const ranks = ranksFor(encoding);
+  return preTokenize(text, encoding).reduce((sum, piece) => sum + bytePairCount(utf8Bytes(piece), ranks), 0);
+}
@@ -0,0 +1,93 @@
+/**
+* circuitBreaker.ts
+*
+* Per-provider health tracking for the LLM fallback chain.
+*
+* Each provider key counts consecutive failures (429 / 5xx / timeouts). Once
+* LLM_CIRCUIT_FAILURE_THRESHOLD failures accumulate the circuit opens and the
+* provider is skipped for LLM_CIRCUIT_COOLDOWN_MS. After the cooldown the
+* circuit is half-open: `acquireCircuit()` lets exactly one caller through as
+* a trial while everyone else keeps skipping the provider. Success closes the
+* circuit, another failure re-opens it straight away, and an outcome that says
+* nothing about the provider's health (e.g. a 400) hands the trial back via
+* `releaseCircuit()`. A trial that is never reported is released after
+* another cooldown.
+*
+* State lives in module memory, i.e. per process under Node.js. Under Apps
+* Script every execution starts with closed circuits, so the breaker never
+* skips a provider there – the fallback chain still fails over, but each
+* request retries the failing provider first.
+*/
+
+import { getConfig } from '../config/index';
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+interface CircuitState {
+  failures: number;
+  /** Epoch millis until which the provider is skipped; 0 while closed. */
+  openUntil: number;
+  /** Epoch millis until which a half-open trial call is in flight. */
+  trialUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function configNumber(key: string, fallback: number): number {
+  const parsed = Number(getConfig(key, { required: false }));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Whether calls to `key` should currently be skipped (open, or trial in flight). */
+export function isCircuitOpen(key: string, now: number = Date.now()): boolean {
+  const state = circuits.get(key);
+  return !!state && (state.openUntil > now || state.trialUntil > now);
+}
+
+/**
+* Claim permission to call `key`: always granted while the circuit is
+* closed, never while it is open, and to a single caller once it is
+* half-open.
+*/
+export function acquireCircuit(key: string, now: number = Date.now()): boolean {
+  const state = circuits.get(key);
+  if (!state || state.openUntil === 0) return true;
+  if (isCircuitOpen(key, now)) return false;
+
+  state.trialUntil = now + configNumber('LLM_CIRCUIT_COOLDOWN_MS', 60_000);
+  return true;
+}
+
+/**
+* Give back a half-open trial without judging the provider, so the next
+* caller may try. No-op once the outcome has been recorded.
+*/
+export function releaseCircuit(key: string): void {
+  const state = circuits.get(key);
+  if (state) state.trialUntil = 0;
+}
+
+export function recordFailure(key: string, now: number = Date.now()): void {
+  const state = circuits.get(key) ?? { failures: 0, openUntil: 0, trialUntil: 0 };
+  state.failures += 1;
+  state.trialUntil = 0;
+  if (state.failures >= configNumber('LLM_CIRCUIT_FAILURE_THRESHOLD', 3)) {
+    state.openUntil = now + configNumber('LLM_CIRCUIT_COOLDOWN_MS', 60_000);
+  }
+  circuits.set(key, state);
+}
+
+export function recordSuccess(key: string): void {
+  circuits.delete(key);
+}
+
+/** Close every circuit (tests / manual recovery). */
+export function resetCircuitBreakers(): void {
+  circuits.clear();
+}
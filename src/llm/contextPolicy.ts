@@ -0,0 +1,126 @@
+/**
+* contextPolicy.ts
+*
+* Decides how much of a thread goes into a prompt for a given model and space.
+*
+* Resolution (later wins):
+*   1. Defaults – 4 096 tokens of the model's context window (a deliberate
+*      cost and latency cap), 1 024 reply tokens, the latest 10 messages and
+*      1 anchor message.
+*   2. Config – CONTEXT_MAX_TOKENS (cap on the context window used; `0` opts
+*      into the model's whole window),
+*      LLM_MAX_REPLY_TOKENS, CONTEXT_RECENT_MESSAGES, CONTEXT_ANCHOR_MESSAGES.
+*   3. CONTEXT_POLICY_OVERRIDES – JSON object keyed by space resource name,
+*      e.g. `{"spaces/AAA": {"recentMessages": 20, "maxContextTokens": 8000}}`.
+*
+* The prompt budget is the (capped) context window minus the reply tokens;
+* for a fallback chain, the smallest window of any target.
+*/
+
+import { getConfig } from '../config/index';
+import { warn as logWarn } from '../utils/logger';
+import type { ContextWindowPolicy } from './contextWindow';
+import { LlmTarget, modelContextLimit } from './index';
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+export interface ContextPolicy extends Required<ContextWindowPolicy> {
+  /** Tokens reserved for the answer – also sent as its `maxTokens`. */
+  maxReplyTokens: number;
+}
+
+/** Per-space settings accepted by CONTEXT_POLICY_OVERRIDES. */
+export interface ContextPolicyOverrides {
+  maxContextTokens?: number;
+  maxReplyTokens?: number;
+  recentMessages?: number;
+  anchorMessages?: number;
+}
+
+/** Default cap on the window used – also the window of models we do not know. */
+const DEFAULT_CONTEXT_TOKENS = 4096;
+const DEFAULT_REPLY_TOKENS = 1024;
+const DEFAULT_RECENT_MESSAGES = 10;
+const DEFAULT_ANCHOR_MESSAGES = 1;
+
+const OVERRIDE_KEYS: Array<keyof ContextPolicyOverrides> = [
+  'maxContextTokens',
+  'maxReplyTokens',
+  'recentMessages',
+  'anchorMessages',
+];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function count(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : undefined;
+}
+
+function configCount(key: string): number | undefined {
+  return count(getConfig(key, { required: false }));
+}
+
+function spaceOverrides(spaceName?: string): ContextPolicyOverrides {
+  const raw = getConfig('CONTEXT_POLICY_OVERRIDES', { required: false });
+  if (!raw || !spaceName) return {};
+
+  let entry: unknown;
+  try {
+    entry = JSON.parse(raw)?.[spaceName];
+  } catch (err) {
+    logWarn('Ignoring invalid CONTEXT_POLICY_OVERRIDES', { error: (err as Error).message });
+    return {};
+  }
+  if (!entry || typeof entry !== 'object') return {};
+
+  const overrides: ContextPolicyOverrides = {};
+  OVERRIDE_KEYS.forEach((key) => {
+    const value = count((entry as Record<string, unknown>)[key]);
+    if (value !== undefined) overrides[key] = value;
+  });
+  return overrides;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Space resource name of a thread, e.g. `spaces/AAA` for `spaces/AAA/threads/BBB`. */
+export function spaceOfThread(threadName: string): string {
+  return threadName.split('/threads/')[0];
+}
+
+/**
+* Context policy for prompts answered by `targets` (a fallback chain is sized
+* for its smallest context window), with the overrides of `spaceName` (if
+* any) applied.
+*/
+export function resolveContextPolicy(targets: LlmTarget | LlmTarget[], spaceName?: string): ContextPolicy {
+  const space = spaceOverrides(spaceName);
+
+  const chain = Array.isArray(targets) ? targets : [targets];
+  const modelLimit = Math.min(...chain.map((t) => modelContextLimit(t) ?? DEFAULT_CONTEXT_TOKENS));
+  const cap = space.maxContextTokens ?? configCount('CONTEXT_MAX_TOKENS') ?? DEFAULT_CONTEXT_TOKENS;
+  const contextTokens = cap > 0 ? Math.min(cap, modelLimit) : modelLimit;
+  const maxReplyTokens = space.maxReplyTokens || configCount('LLM_MAX_REPLY_TOKENS') || DEFAULT_REPLY_TOKENS;
+
+  if (maxReplyTokens >= contextTokens) {
+    logWarn('Reply tokens fill the whole context window – prompts will carry no thread context', {
+      spaceName,
+      maxReplyTokens,
+      contextTokens,
+    });
+  }
+
+  return {
+    maxTokens: Math.max(contextTokens - maxReplyTokens, 0),
+    maxReplyTokens,
+    recentMessages: space.recentMessages ?? configCount('CONTEXT_RECENT_MESSAGES') ?? DEFAULT_RECENT_MESSAGES,
+    anchorMessages: space.anchorMessages ?? configCount('CONTEXT_ANCHOR_MESSAGES') ?? DEFAULT_ANCHOR_MESSAGES,
+  };
+}
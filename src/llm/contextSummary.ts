@@ -0,0 +1,217 @@
+/**
+* contextSummary.ts
+*
+* Optional alternative to discarding the middle of an over-budget thread:
+* the span `buildContextWindow()` would prune is replaced by a single
+* summary message at its chronological position, so decisions made halfway
+* through a long thread still reach the prompt.
+*
+* Strategies (CONTEXT_SUMMARY):
+*   • `off` (default) – plain `buildContextWindow()`.
+*   • `llm` – ask the LLM for a short bullet summary; falls back to the
+*     extractive summary when the call fails or the result is over budget.
+*   • `extractive` – no LLM call: the sentences most likely to carry
+*     decisions and facts, quoted with their speakers.
+*
+* Summaries are cached per thread and message range (`store/summaryCache.ts`).
+*/
+
+import { getConfig } from '../config/index';
+import { getCachedSummary, putCachedSummary } from '../store/summaryCache';
+import { warn as logWarn } from '../utils/logger';
+import {
+  ContextWindowOptions,
+  ContextWindowPolicy,
+  estimateMessageTokens,
+  MessageLike,
+  selectContextIndices,
+} from './contextWindow';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SummaryStrategy = 'off' | 'llm' | 'extractive';
+
+/** Stand-in for the pruned span. Has no sender, unlike real messages. */
+export interface ContextSummary extends MessageLike {
+  text: string;
+  isSummary: true;
+  /** Number of messages the summary replaces. */
+  summarisedCount: number;
+  /** `createTime` of the last summarised message. */
+  createTime?: string;
+}
+
+export interface SummarisedWindowOptions<T> extends ContextWindowOptions<T> {
+  /** Defaults to CONTEXT_SUMMARY. */
+  strategy?: SummaryStrategy;
+  /** Thread the messages belong to – enables caching. */
+  threadName?: string;
+  /** Tokens set aside for the summary. Defaults to CONTEXT_SUMMARY_MAX_TOKENS. */
+  summaryTokens?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_SUMMARY_TOKENS = 300;
+
+/** Transcript sent to the summariser is capped (~12k tokens) around its middle. */
+const MAX_TRANSCRIPT_CHARS = 48_000;
+
+/** Sentences quoted by the extractive strategy are capped in length and number. */
+const MAX_SENTENCE_CHARS = 200;
+const MAX_CANDIDATES = 100;
+
+const SUMMARY_INSTRUCTION =
+  'Summarise this excerpt of a chat thread in a few short bullet points. Keep decisions, ' +
+  'conclusions, open questions, names, numbers and error messages; drop greetings and chatter.';
+
+/** Wording that tends to mark decisions, causes and follow-ups. */
+const KEY_FACT =
+  /\b(decid|agree|conclu|resolv|fix|root cause|because|workaround|error|fail|deadline|must|should|will|need|todo|action|next step)/i;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function messageText(msg: MessageLike): string {
+  return (typeof msg.text === 'string' ? msg.text : msg.content ?? '').trim();
+}
+
+function speaker(msg: MessageLike): string {
+  return msg.isAiBot ? 'Assistant' : msg.sender?.displayName || 'User';
+}
+
+function summaryMessage(body: string, pruned: MessageLike[]): ContextSummary {
+  return {
+    text: `Summary of ${pruned.length} earlier message${pruned.length === 1 ? '' : 's'}:\n${body}`,
+    isSummary: true,
+    summarisedCount: pruned.length,
+    createTime: pruned[pruned.length - 1].createTime,
+  };
+}
+
+async function llmSummary(pruned: MessageLike[], summaryTokens: number): Promise<string> {
+  let transcript = pruned.map((m) => `${speaker(m)}: ${messageText(m)}`).join('\n');
+  if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+    const half = MAX_TRANSCRIPT_CHARS / 2;
+    transcript = `${transcript.slice(0, half)}\n…\n${transcript.slice(-half)}`;
+  }
+
+  const { generateChat } = await import('./index');
+  const body = await generateChat(
+    [
+      { role: 'system', content: SUMMARY_INSTRUCTION },
+      { role: 'user', content: transcript },
+    ],
+    { maxTokens: summaryTokens, temperature: 0.2 },
+  );
+  return body.trim();
+}
+
+/** Key-fact sentences first, then the rest in order, as long as they fit. */
+function extractiveSummary(pruned: MessageLike[], fits: (body: string) => boolean): string {
+  const sentences = pruned.flatMap((m, order) =>
+    messageText(m)
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((s) => ({
+        order,
+        line: `- ${speaker(m)}: ${s.length > MAX_SENTENCE_CHARS ? `${s.slice(0, MAX_SENTENCE_CHARS)}…` : s}`,
+        keyFact: KEY_FACT.test(s),
+      })),
+  );
+
+  const candidates = sentences
+    .map((s, position) => ({ ...s, position }))
+    .sort((a, b) => Number(b.keyFact) - Number(a.keyFact) || a.position - b.position)
+    .slice(0, MAX_CANDIDATES);
+
+  const chosen: typeof candidates = [];
+  const render = (list: typeof candidates): string =>
+    list
+      .slice()
+      .sort((a, b) => a.position - b.position)
+      .map((s) => s.line)
+      .join('\n');
+
+  candidates.forEach((candidate) => {
+    if (fits(render([...chosen, candidate]))) chosen.push(candidate);
+  });
+  return render(chosen) || '- (details omitted)';
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Configured CONTEXT_SUMMARY strategy (default `off`). */
+export function summaryStrategy(): SummaryStrategy {
+  const raw = getConfig('CONTEXT_SUMMARY', { required: false })?.toLowerCase();
+  return raw === 'llm' || raw === 'extractive' ? raw : 'off';
+}
+
+/**
+* Like `buildContextWindow()`, but when messages must be pruned the span is
+* replaced by a summary message costing at most `summaryTokens`. Without a
+* strategy, or when everything fits, the result is the plain window.
+*/
+export async function buildSummarisedContextWindow<T extends MessageLike>(
+  fullMessages: T[],
+  budget: number | ContextWindowPolicy,
+  opts: SummarisedWindowOptions<T> = {},
+): Promise<Array<T | ContextSummary>> {
+  const policy = typeof budget === 'number' ? { maxTokens: budget } : budget;
+  const plain = selectContextIndices(fullMessages, policy, opts);
+  const strategy = opts.strategy ?? summaryStrategy();
+  if (strategy === 'off' || plain.length === fullMessages.length) {
+    return plain.map((i) => fullMessages[i]);
+  }
+
+  const configured = Number(getConfig('CONTEXT_SUMMARY_MAX_TOKENS', { required: false }));
+  const summaryTokens =
+    opts.summaryTokens ?? (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SUMMARY_TOKENS);
+
+  // Make room for the summary; the pruned span is everything between the
+  // anchors and the oldest recent message still kept.
+  const kept = selectContextIndices(fullMessages, { ...policy, maxTokens: policy.maxTokens - summaryTokens }, opts);
+  let gap = 0;
+  while (gap < kept.length && kept[gap] === gap) gap += 1;
+  const pruned = fullMessages.slice(gap, gap < kept.length ? kept[gap] : fullMessages.length);
+  if (!kept.length || !pruned.length) return plain.map((i) => fullMessages[i]);
+
+  const cost = (summary: ContextSummary): number =>
+    opts.tokenCost ? opts.tokenCost(summary as unknown as T) : estimateMessageTokens(summary);
+  const fits = (body: string): boolean => cost(summaryMessage(body, pruned)) <= summaryTokens;
+
+  const firstName = pruned[0].name;
+  const lastName = pruned[pruned.length - 1].name;
+  const cacheable = !!(opts.threadName && firstName && lastName);
+  let body = cacheable ? getCachedSummary(opts.threadName as string, firstName, lastName) : undefined;
+
+  if (body === undefined) {
+    // A failed LLM call may be transient – only cache what the strategy itself produced.
+    let cache = cacheable;
+    if (strategy === 'llm') {
+      try {
+        body = await llmSummary(pruned, summaryTokens);
+        if (!body || !fits(body)) body = undefined;
+      } catch (err) {
+        cache = false;
+        logWarn('Context summary failed – using an extractive summary', {
+          threadName: opts.threadName,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    body = body ?? extractiveSummary(pruned, fits);
+    if (cache) putCachedSummary(opts.threadName as string, firstName, lastName, body);
+  }
+
+  const select = (indices: number[]): T[] => indices.map((i) => fullMessages[i]);
+  return [...select(kept.slice(0, gap)), summaryMessage(body, pruned), ...select(kept.slice(gap))];
+}
@@ -5,19 +5,24 @@
 * token budget.
 *
 * Algorithm (MVP – VEN-45):
-* 1. Always keep the original question (index 0).
-* 2. Prefer the newest *up-to* 10 messages (excluding the first).
+* 1. Always keep the anchor messages – by default just the original question
+*    (index 0).
+* 2. Prefer the newest *up-to* 10 messages (excluding the anchors).
 * 3. If the resulting selection still exceeds the `maxTokens` budget we drop
-*    messages from the *middle* (i.e. older messages that are neither the
-*    very first nor part of the latest ten) until the budget is respected.
+*    messages from the *middle* (i.e. older messages that are neither
+*    anchors nor part of the latest ten) until the budget is respected.
 * 4. As a last-ditch fallback (extremely rare) we trim from the oldest of the
-*    preserved “latest 10” messages. The first message is **never** removed –
-*    callers must choose an appropriate budget so that at least the original
-*    question fits.
+*    preserved “latest 10” messages. Anchors are **never** removed – callers
+*    must choose an appropriate budget so that at least the original question
+*    fits.
 *
-* The helper purposefully over-approximates the token count by equating one
-* whitespace-separated word to one token. This is good enough for the MVP and
-* keeps the implementation lightweight and dependency-free.
+* Both counts can be changed by passing a `ContextWindowPolicy` instead of a
+* bare budget (see `contextPolicy.ts`).
+*
+* Message costs come from the caller's `tokenCost` – typically a
+* `TokenEstimator` from `tokenEstimator.ts`, which includes role and format
+* framing. Without one we fall back to equating one whitespace-separated word
+* to one token.
 */
 
 // ---------------------------------------------------------------------------
@@ -37,6 +42,20 @@ export interface MessageLike {
   [key: string]: any;
 }
 
+/** Budget plus selection rules; a bare number means the defaults. */
+export interface ContextWindowPolicy {
+  maxTokens: number;
+  /** Newest messages preferred over the middle of the thread. Default 10. */
+  recentMessages?: number;
+  /** Leading messages that are never pruned. Default 1. */
+  anchorMessages?: number;
+}
+
+export interface ContextWindowOptions<T> {
+  /** Tokens `msg` costs in the prompt. Defaults to its word count. */
+  tokenCost?: (msg: T) => number;
+}
+
 // ---------------------------------------------------------------------------
 // Rough token estimator – 1 word ≈ 1 token
 // ---------------------------------------------------------------------------
@@ -51,7 +70,8 @@ function wordCountToTokens(text: string): number {
   return words.filter(Boolean).length;
 }
 
-function estimateMessageTokens(msg: MessageLike): number {
+/** Default message cost – its word count. */
+export function estimateMessageTokens(msg: MessageLike): number {
   const raw = typeof msg.text === 'string' ? msg.text : msg.content ?? '';
   return wordCountToTokens(raw);
 }
@@ -67,13 +87,30 @@ function estimateMessageTokens(msg: MessageLike): number {
 */
 export function buildContextWindow<T extends MessageLike>(
   fullMessages: T[],
-  maxTokens: number,
+  budget: number | ContextWindowPolicy,
+  opts: ContextWindowOptions<T> = {},
 ): T[] {
-  // 0. Treat positive Infinity as *unlimited* budget – return a shallow copy
-  //    so callers cannot mutate the input array.
+  return selectContextIndices(fullMessages, budget, opts).map((i) => fullMessages[i]);
+}
+
+/**
+* Indices (ascending) of the messages `buildContextWindow()` keeps. Pruned
+* messages always form one contiguous span right after the anchors, which
+* lets callers replace it with a summary (see `contextSummary.ts`).
+*/
+export function selectContextIndices<T extends MessageLike>(
+  fullMessages: T[],
+  budget: number | ContextWindowPolicy,
+  opts: ContextWindowOptions<T> = {},
+): number[] {
+  const policy = typeof budget === 'number' ? { maxTokens: budget } : budget;
+  const { maxTokens } = policy;
+  const all = (): number[] => fullMessages.map((_msg, i) => i);
+
+  // 0. Treat positive Infinity as *unlimited* budget.
   if (maxTokens === Infinity) {
     // Unlimited budget: return all messages in chronological order.
-    return fullMessages.slice();
+    return all();
   }
 
   // 1. Guard against non-positive or non-finite budgets (NaN, -Infinity) –
@@ -89,12 +126,12 @@ export function buildContextWindow<T extends MessageLike>(
   // Shortcut – when the conversation is a single message just return it (it
   // must be the original question by definition).
   if (totalMessages === 1) {
-    return fullMessages;
+    return [0];
   }
 
   // Compute token cost for every message once up-front – O(n) instead of re-
   // estimating on every removal iteration.
-  const tokenCosts = fullMessages.map(estimateMessageTokens);
+  const tokenCosts = fullMessages.map((msg) => (opts.tokenCost ?? estimateMessageTokens)(msg));
 
   // -----------------------------------------------------------------------
   // 1. Seed the selection with *all* messages so we can progressively prune
@@ -105,19 +142,20 @@ export function buildContextWindow<T extends MessageLike>(
   for (let i = 0; i < totalMessages; i += 1) selected.add(i);
 
   // -----------------------------------------------------------------------
-  // 2. Ensure the very first message (index 0) always stays.
+  // 2. The leading anchor messages always stay.
   // -----------------------------------------------------------------------
 
-  const firstIndex = 0;
+  const anchorEnd = Math.min(Math.max(policy.anchorMessages ?? 1, 0), totalMessages); // exclusive
 
   // -----------------------------------------------------------------------
-  // 3. Identify the indices of the newest ≤10 messages (excluding index 0).
+  // 3. Identify the indices of the newest messages (excluding the anchors).
   // -----------------------------------------------------------------------
 
-  const newest10Start = Math.max(totalMessages - 10, 1); // ensure >0 so we don’t capture the first again
-  const newest10Indices: number[] = [];
-  for (let i = newest10Start; i < totalMessages; i += 1) {
-    newest10Indices.push(i);
+  const recentCount = Math.max(policy.recentMessages ?? 10, 0);
+  const recentStart = Math.max(totalMessages - recentCount, anchorEnd); // never capture an anchor again
+  const recentIndices: number[] = [];
+  for (let i = recentStart; i < totalMessages; i += 1) {
+    recentIndices.push(i);
   }
 
   // -----------------------------------------------------------------------
@@ -128,59 +166,44 @@ export function buildContextWindow<T extends MessageLike>(
 
   // Fast exit when we already fit inside the budget – nothing to remove.
   if (currentTokens <= maxTokens) {
-    return fullMessages.slice(); // shallow copy to protect caller from mutability
+    return all();
   }
 
   // -----------------------------------------------------------------------
-  // 5. Remove messages from the *middle* (indices between first and newest10)
-  //    oldest-to-newest until we fit.
+  // 5. Remove messages from the *middle* (indices between the anchors and the
+  //    recent messages) oldest-to-newest until we fit.
   // -----------------------------------------------------------------------
 
-  const middleStart = 1; // immediately after the first message
-  const middleEnd = newest10Start; // exclusive upper bound
-
-  for (let idx = middleStart; idx < middleEnd && currentTokens > maxTokens; idx += 1) {
-    // Skip if the index is already not selected (shouldn’t happen but safe).
-    if (!selected.has(idx)) continue;
+  for (let idx = anchorEnd; idx < recentStart && currentTokens > maxTokens; idx += 1) {
     selected.delete(idx);
     currentTokens -= tokenCosts[idx];
   }
 
   // -----------------------------------------------------------------------
-  // 6. If *still* over budget we remove from the preserved newest 10 starting
-  //    with the *oldest* of those (i.e. the earliest index).
+  // 6. If *still* over budget we remove from the preserved recent messages
+  //    starting with the *oldest* of those (i.e. the earliest index).
   //    This step is not mentioned explicitly in the ticket but safeguards us
   //    against pathological cases where a single huge message could bust the
-  //    budget even when only 11 messages are selected.
+  //    budget even when only the anchors and recent messages are selected.
   // -----------------------------------------------------------------------
 
-  for (const idx of newest10Indices) {
+  for (const idx of recentIndices) {
     if (currentTokens <= maxTokens) break;
-    // Never remove the first message.
-    if (!selected.has(idx)) continue;
     selected.delete(idx);
     currentTokens -= tokenCosts[idx];
   }
 
-  // NOTE: If we are *still* above the budget here the only selectable message
-  // left is the very first one (index 0). We cannot remove it per the spec –
-  // choose to return just the first message as a last resort.
+  // NOTE: If we are *still* above the budget here only the anchors are left.
+  // We cannot remove them per the spec – return them as a last resort.
   if (currentTokens > maxTokens) {
-    return [fullMessages[0]];
+    return Array.from({ length: anchorEnd }, (_v, i) => i);
   }
 
   // -----------------------------------------------------------------------
   // Build the final array in chronological order.
   // -----------------------------------------------------------------------
 
-  const result: T[] = [];
-  for (let i = 0; i < totalMessages; i += 1) {
-    if (selected.has(i)) {
-      result.push(fullMessages[i]);
-    }
-  }
-
-  return result;
+  return Array.from(selected).sort((a, b) => a - b);
 }
 
 export default buildContextWindow;
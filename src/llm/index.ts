@@ -1,17 +1,56 @@
 /**
 * Generic LLM provider wrapper.
 *
-* For now we only implement the OpenAI chat-completions path.
-* A stub branch exists for the upcoming Gemini integration.
+* Providers:
+*   – `openai` – chat-completions API (OPENAI_API_KEY).
+*   – `azure-openai` – Azure OpenAI deployments (AZURE_OPENAI_*).
+*   – `openai-compatible` – self-hosted servers speaking the chat-completions
+*     protocol, e.g. vLLM, Ollama or LM Studio (OPENAI_COMPATIBLE_*).
+*   – `gemini` – Google Generative Language `generateContent` (GEMINI_API_KEY).
+*   – `anthropic` – Anthropic Messages API (ANTHROPIC_API_KEY).
+*
+* The provider comes from `opts.provider`, then LLM_PROVIDER, then `openai`.
+* Alternatively `opts.targets` (or LLM_FALLBACK_CHAIN) lists several
+* provider/model targets tried in order: a target failing with 429, 5xx, a
+* timeout or a connection error hands over to the next one, and providers
+* that keep failing are skipped for a while (see `circuitBreaker.ts`).
+*
+* `generateChat()` takes role-based turns and maps them onto each provider's
+* native conversation format; `generateText()` is the single-prompt shorthand
+* and `streamChat()` yields the answer incrementally.
 */
 
 
 
-export type SupportedProvider = 'openai' | 'gemini';
+export type SupportedProvider =
+  | 'openai'
+  | 'azure-openai'
+  | 'openai-compatible'
+  | 'gemini'
+  | 'anthropic';
+
+/** One turn of a role-based conversation passed to `generateChat()`. */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  /**
+   * Speaker of a `user` turn. Sent through the provider's name field where
+   * one exists, otherwise as a sanitised `[name]` label on the content.
+   */
+  name?: string;
+}
+
+/** One entry of a fallback chain. */
+export interface LlmTarget {
+  provider: SupportedProvider;
+  modelId?: string;
+  endpoint?: string;
+}
 
 export interface GenerateTextOptions {
   /**
-   * Which provider to route the call to. Defaults to `openai`.
+   * Which provider to route the call to. Defaults to LLM_PROVIDER, then
+   * `openai`.
    */
   provider?: SupportedProvider;
   /**
@@ -31,15 +70,32 @@ export interface GenerateTextOptions {
   maxTokens?: number;
   /**
    * Override the HTTPS endpoint (e.g. when pointing at an Azure/OpenAI or
-   * proxy instance). Optional.
+   * proxy instance). Optional. For Gemini this is the API base URL – the
+   * `/models/<model>:generateContent` path is appended; for Azure the
+   * resource URL; for OpenAI-compatible servers the `/v1` base URL.
    */
   endpoint?: string;
+  /**
+   * System instructions sent through the provider's native system slot
+   * (system message, `systemInstruction`, Anthropic `system`). Optional.
+   */
+  systemPrompt?: string;
+  /**
+   * Ordered fallback chain – objects or `provider[:model]` strings such as
+   * `openai:gpt-4o-mini` (`local` is short for `openai-compatible`). Takes
+   * precedence over `provider` / `modelId` / `endpoint`.
+   */
+  targets?: Array<LlmTarget | string>;
 }
 
-/** Default model IDs per provider */
-const DEFAULT_MODELS: Record<SupportedProvider, string> = {
+/**
+* Default model IDs per provider. Azure deployments and self-hosted servers
+* have no universal default, so they must be configured (or discovered).
+*/
+const DEFAULT_MODELS: Record<'openai' | 'gemini' | 'anthropic', string> = {
   openai: 'gpt-4o-mini',
   gemini: 'gemini-1.5-flash-8b',
+  anthropic: 'claude-3-5-haiku-latest',
 };
 
 /**
@@ -54,28 +110,138 @@ const OPENAI_MODEL_LIMITS: Record<string, number> = {
   'gpt-4.1-nano': 1_000_000,
 };
 
+/**
+* Output-token caps for Gemini models (`maxOutputTokens`). Unknown models get
+* the conservative 8 192 shared by the 1.5 / 2.0 families.
+*/
+const GEMINI_MODEL_LIMITS: Record<string, number> = {
+  'gemini-1.5-flash-8b': 8_192,
+  'gemini-1.5-flash': 8_192,
+  'gemini-1.5-pro': 8_192,
+  'gemini-2.0-flash': 8_192,
+  'gemini-2.0-flash-lite': 8_192,
+  'gemini-2.5-flash': 65_536,
+  'gemini-2.5-pro': 65_536,
+};
+
+/** Gemini 1.0 models only accept temperatures up to 1; later ones up to 2. */
+const GEMINI_MAX_TEMPERATURE: Record<string, number> = {
+  'gemini-1.0-pro': 1,
+  'gemini-pro': 1,
+};
+
+/**
+* `max_tokens` caps for Claude models, matched by prefix so dated snapshots
+* (`claude-3-5-haiku-20241022`) and `-latest` aliases share an entry. Unknown
+* models get 4 096, the lowest cap of any current model.
+*/
+const ANTHROPIC_MODEL_LIMITS: Array<[prefix: string, maxTokens: number]> = [
+  ['claude-opus-4', 32_000],
+  ['claude-sonnet-4', 64_000],
+  ['claude-3-7-sonnet', 64_000],
+  ['claude-3-5-sonnet', 8_192],
+  ['claude-3-5-haiku', 8_192],
+  ['claude-3-haiku', 4_096],
+  ['claude-3-opus', 4_096],
+];
+
+/**
+* Context windows (prompt + reply tokens) of Gemini and Claude models, matched
+* by prefix; OpenAI models are looked up in OPENAI_MODEL_LIMITS.
+*/
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gemini-1.0', 32_760],
+  ['gemini-pro', 32_760],
+  ['gemini-1.5-pro', 2_097_152],
+  ['gemini-', 1_048_576],
+  ['claude-', 200_000],
+];
+
+const AZURE_OPENAI_DEFAULT_API_VERSION = '2024-06-01';
+
+const ANTHROPIC_DEFAULT_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+const GEMINI_DEFAULT_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta';
+
+/** Finish reasons meaning the candidate was withheld rather than completed. */
+const GEMINI_BLOCKED_FINISH_REASONS = new Set([
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+]);
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/** Single-prompt shorthand for `generateChat([{ role: 'user', … }])`. */
 export async function generateText(
   prompt: string,
   opts: GenerateTextOptions = {},
 ): Promise<string> {
-  const provider = opts.provider ?? 'openai';
+  return generateChat([{ role: 'user', content: prompt }], opts);
+}
+
+/**
+* Generate the next assistant turn for a role-based conversation.
+*
+* System turns (plus `opts.systemPrompt`, which goes first) are sent through
+* the provider's system slot; user / assistant turns keep their order.
+*
+* @throws {Error} When `messages` holds no user or assistant turn, or the
+*                 provider call fails.
+*/
+export async function generateChat(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions = {},
+): Promise<string> {
+  const turns = prepareTurns(messages, opts);
+  const chain = chainTargets(opts);
+
+  let lastError: unknown;
+  for (const [target, acquired] of callableTargets(chain)) {
+    const index = chain.indexOf(target);
+    try {
+      const answer = await generateWithTarget(turns, { ...opts, ...target });
+      recordAnswer(target, index, chain.length);
+      return answer;
+    } catch (err) {
+      if (!isFailoverError(err)) throw err;
+      recordProviderFailure(target, err, index < chain.length - 1);
+      lastError = err;
+    } finally {
+      if (acquired) releaseCircuit(target.provider);
+    }
+  }
+  throw lastError;
+}
+
+/** One provider call – `opts.provider` already resolved. */
+async function generateWithTarget(
+  turns: LlmMessage[],
+  opts: GenerateTextOptions & { provider: SupportedProvider },
+): Promise<string> {
+  const provider = opts.provider;
 
   switch (provider) {
     case 'openai':
-      return openaiGenerateText(prompt, opts);
+    case 'azure-openai':
+    case 'openai-compatible': {
+      const target = await chatCompletionsTarget(provider, opts);
+      if (!target) throw new Error(`No chat-completions target for provider: ${provider}`);
+      return chatCompletions(turns, opts, target);
+    }
 
     case 'gemini':
-      // Feature flag placeholder — flip through env/property at a later date.
-      throw new Error(
-        'Gemini provider not implemented yet — track ticket VEN-XX for details.',
-      );
+      return geminiGenerateChat(turns, opts);
+
+    case 'anthropic':
+      return anthropicGenerateChat(turns, opts);
 
     default: {
-      // Exhaustive check for future additions.
       // Exhaustive guard so TypeScript will flag on new providers.
       const _never: never = provider as never;
       throw new Error(`Unsupported provider: ${String(_never)}`);
@@ -83,83 +249,235 @@ export async function generateText(
   }
 }
 
+/**
+* Stream the next assistant turn as text fragments.
+*
+* Chat-completions providers (`openai`, `azure-openai`, `openai-compatible`)
+* stream token by token over server-sent events; other providers yield the
+* complete answer as a single fragment. Under Apps Script, where responses
+* cannot be streamed, the fragments arrive all at once.
+*/
+export async function* streamChat(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions = {},
+): AsyncGenerator<string> {
+  const turns = prepareTurns(messages, opts);
+  const chain = chainTargets(opts);
+
+  let lastError: unknown;
+  for (const [target, acquired] of callableTargets(chain)) {
+    const index = chain.indexOf(target);
+    const targetOpts = { ...opts, ...target };
+    // Fail over only before the first fragment – the user has seen the rest.
+    let started = false;
+    try {
+      const completions = await chatCompletionsTarget(target.provider, targetOpts);
+      if (completions) {
+        for await (const fragment of chatCompletionsStream(turns, targetOpts, completions)) {
+          started = true;
+          yield fragment;
+        }
+      } else {
+        const answer = await generateWithTarget(turns, targetOpts);
+        started = true;
+        yield answer;
+      }
+      recordAnswer(target, index, chain.length);
+      return;
+    } catch (err) {
+      if (!isFailoverError(err)) throw err;
+      recordProviderFailure(target, err, !started && index < chain.length - 1);
+      if (started) throw err;
+      lastError = err;
+    } finally {
+      // Also runs when the consumer stops iterating early.
+      if (acquired) releaseCircuit(target.provider);
+    }
+  }
+  throw lastError;
+}
+
+// ---------------------------------------------------------------------------
+// Fallback chain
+// ---------------------------------------------------------------------------
+
+const PROVIDER_ALIASES: Record<string, SupportedProvider> = { local: 'openai-compatible' };
+
+/** Parse `provider[:model]` – model ids may themselves contain colons. */
+function parseTarget(spec: string): LlmTarget {
+  const [rawProvider, ...model] = spec.trim().split(':');
+  const provider = (PROVIDER_ALIASES[rawProvider] ?? rawProvider) as SupportedProvider;
+  const modelId = model.join(':');
+  return modelId ? { provider, modelId } : { provider };
+}
+
+/** The configured chain, in order, regardless of circuit state. */
+function chainTargets(opts: GenerateTextOptions): LlmTarget[] {
+  const chainFromConfig = opts.provider ? undefined : readConfig('LLM_FALLBACK_CHAIN');
+
+  if (opts.targets?.length) {
+    return opts.targets.map((t) => (typeof t === 'string' ? parseTarget(t) : t));
+  }
+  if (chainFromConfig) {
+    return chainFromConfig.split(',').filter((t) => t.trim()).map(parseTarget);
+  }
+  const provider =
+    opts.provider ?? (readConfig('LLM_PROVIDER') as SupportedProvider | undefined) ?? 'openai';
+  return [{ provider, modelId: opts.modelId, endpoint: opts.endpoint }];
+}
+
+/**
+* The chain's targets in order, skipping providers whose circuit is open. Each
+* circuit is acquired only when the previous target has failed, so a
+* half-open trial is taken by a target that is actually called. When every
+* circuit is open the whole chain is tried anyway – failing without a single
+* attempt would turn a partial outage into a full one.
+*/
+function* callableTargets(chain: LlmTarget[]): Generator<[target: LlmTarget, acquired: boolean]> {
+  let attempted = false;
+  for (const target of chain) {
+    if (!acquireCircuit(target.provider)) continue;
+    attempted = true;
+    yield [target, true];
+  }
+  if (!attempted) {
+    for (const target of chain) yield [target, false];
+  }
+}
+
+/** Model a provider uses when no `modelId` is passed, if known without a request. */
+function configuredModelId(provider: SupportedProvider): string | undefined {
+  switch (provider) {
+    case 'openai':
+      return readConfig('OPENAI_MODEL_ID') || DEFAULT_MODELS.openai;
+    case 'azure-openai':
+      return readConfig('AZURE_OPENAI_MODEL_ID') || readConfig('AZURE_OPENAI_DEPLOYMENT');
+    case 'openai-compatible':
+      return readConfig('OPENAI_COMPATIBLE_MODEL_ID');
+    case 'gemini':
+      return readConfig('GEMINI_MODEL_ID') || DEFAULT_MODELS.gemini;
+    case 'anthropic':
+      return readConfig('ANTHROPIC_MODEL_ID') || DEFAULT_MODELS.anthropic;
+    default:
+      return undefined;
+  }
+}
+
+/**
+* Every target a call with `opts` may try, in order, with models resolved
+* from config – lets callers size prompts so that any of them can answer.
+* Open circuits are ignored here since they may close before the call.
+*/
+export function candidateTargets(opts: GenerateTextOptions = {}): LlmTarget[] {
+  return chainTargets(opts).map((target) => {
+    const modelId = target.modelId || configuredModelId(target.provider);
+    return modelId ? { ...target, modelId } : target;
+  });
+}
+
+/**
+* Context window of `target`'s model in tokens, or `undefined` when unknown
+* (self-hosted servers, unlisted models).
+*/
+export function modelContextLimit(target: LlmTarget): number | undefined {
+  const modelId = target.modelId ?? '';
+  if (target.provider === 'openai' || target.provider === 'azure-openai') {
+    return OPENAI_MODEL_LIMITS[modelId];
+  }
+  if (target.provider === 'openai-compatible') return undefined;
+  return CONTEXT_WINDOWS.find(([prefix]) => modelId.startsWith(prefix))?.[1];
+}
+
+/** 429, 5xx, timeouts and unreachable hosts justify trying the next target. */
+function isFailoverError(err: unknown): boolean {
+  const e = err as { status?: number; code?: string; name?: string } | undefined;
+  if (typeof e?.status === 'number') return e.status === 429 || e.status >= 500;
+  if (e?.name === 'AbortError') return true;
+  return ['ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN'].includes(
+    e?.code ?? '',
+  );
+}
+
+function recordAnswer(target: LlmTarget, index: number, chainLength: number): void {
+  recordSuccess(target.provider);
+  logInfo('LLM answer generated', {
+    provider: target.provider,
+    modelId: target.modelId,
+    fallbackIndex: index,
+    chainLength,
+  });
+}
+
+function recordProviderFailure(target: LlmTarget, err: unknown, willFailOver: boolean): void {
+  recordFailure(target.provider);
+  logWarn(willFailOver ? 'LLM provider failed – trying next target' : 'LLM provider failed', {
+    provider: target.provider,
+    modelId: target.modelId,
+    status: (err as { status?: number })?.status,
+    error: err instanceof Error ? err.message : String(err),
+  });
+}
+
+/** Validate a conversation and prepend `opts.systemPrompt`. */
+function prepareTurns(messages: LlmMessage[], opts: GenerateTextOptions): LlmMessage[] {
+  if (!messages.some((m) => m.role !== 'system')) {
+    throw new Error('generateChat requires at least one user or assistant message.');
+  }
+  return opts.systemPrompt
+    ? [{ role: 'system', content: opts.systemPrompt }, ...messages]
+    : messages;
+}
+
 // ---------------------------------------------------------------------------
 // Provider helpers
 // ---------------------------------------------------------------------------
 
 import { getConfig } from '../config/index';
+import { httpError, readStreamText, request, requestStream } from '../utils/http';
+import { info as logInfo, warn as logWarn } from '../utils/logger';
+import { parseSseStream } from '../utils/sse';
+import { acquireCircuit, recordFailure, recordSuccess, releaseCircuit } from './circuitBreaker';
 
-/** Determine the runtime environment and perform a JSON HTTP POST. */
+/**
+* JSON POST through the shared HTTP transport (UrlFetchApp / axios / fetch).
+*
+* Non-2xx responses throw `"<service> returned HTTP <status>"`. Provider
+* response bodies are only appended when NODE_ENV === 'development' to avoid
+* leaking potentially sensitive payloads into production logs.
+*/
 /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
 async function httpPostJson(
+  service: string,
   url: string,
   headers: Record<string, string>,
   body: Record<string, unknown>,
 ): Promise<any> {
-  // 1) Node.js / server – prefer axios because nock can easily intercept.
-  if (
-    typeof process !== 'undefined' &&
-    process.versions?.node // Node (including Jest). Using axios ensures nock/mockability.
-  ) {
-    const axios = (await import('axios')).default;
-    const res = await axios.post(url, body, {
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      validateStatus: () => true, // we will throw manually for non-2xx
-    });
-
-    if (res.status >= 400) {
-      // Avoid leaking potentially sensitive provider response bodies in production logs.
-      // Surface full details only during local development where NODE_ENV === 'development'.
-      const safeMessage = process.env.NODE_ENV === 'development'
-        ? JSON.stringify(res.data)
-        : '[response truncated]';
-      throw new Error(`HTTP ${res.status} – ${safeMessage}`);
-    }
-
-    return res.data;
+  const res = await request({
+    method: 'post',
+    url,
+    headers,
+    json: body,
+    timeoutMs: llmTimeoutMs(),
+  });
+
+  if (res.status >= 400) {
+    throw withDevelopmentBody(httpError(service, res));
   }
 
-  // 2) Modern browsers / Cloudflare Workers – fall back to fetch.
-  if (typeof fetch === 'function') {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!res.ok) {
-      const text = await res.text().catch(() => '[no body]');
-      throw new Error(`HTTP ${res.status} – ${text}`);
-    }
-
-    return res.json();
-  }
-
-  // Google Apps Script environment fallback.
-  if (typeof UrlFetchApp !== 'undefined' && UrlFetchApp.fetch) {
-    const response = UrlFetchApp.fetch(url, {
-      method: 'post',
-      contentType: 'application/json',
-      headers,
-      payload: JSON.stringify(body),
-      muteHttpExceptions: true,
-    });
+  return res.data;
+}
 
-    const code = response.getResponseCode();
-    if (code >= 400) {
-      throw new Error(`HTTP ${code} – ${response.getContentText()}`);
-    }
+function llmTimeoutMs(): number {
+  const timeout = Number(readConfig('LLM_TIMEOUT_MS'));
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : 60_000;
+}
 
-    return JSON.parse(response.getContentText());
+/** Append the response body to an HTTP error, in development only. */
+function withDevelopmentBody<E extends Error & { data: unknown }>(err: E): E {
+  if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
+    err.message += ` – ${JSON.stringify(err.data)}`;
   }
-
-  throw new Error('No compatible HTTP client (fetch / UrlFetchApp) found.');
+  return err;
 }
 
 /**
@@ -171,12 +489,80 @@ function readConfig(key: string): string | undefined {
   return getConfig(key, { required: false });
 }
 
+/**
+* Append the provider's machine-readable error code (plus a readable hint
+* when we have one) to an HTTP error thrown by `httpPostJson`. The code is
+* safe to log, unlike the full response body.
+*/
+function annotateProviderError(
+  err: unknown,
+  code: string | undefined,
+  hints: Record<string, string>,
+): void {
+  if (!code || !(err instanceof Error)) return;
+  const hint = hints[code];
+  err.message += hint ? ` (${code}: ${hint})` : ` (${code})`;
+}
+
+// --------------------------- Conversation mapping ---------------------------
+
+/** OpenAI restricts `name` to 1–64 characters of `[A-Za-z0-9_-]`. */
+function openaiName(name: string): string | undefined {
+  const cleaned = name.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64);
+  return cleaned || undefined;
+}
+
+/**
+* Inline speaker label for providers without a name field. Brackets and line
+* breaks are stripped so a display name cannot forge extra turns.
+*/
+function speakerLabel(name: string): string {
+  return name.replace(/[[\]\r\n]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 64);
+}
+
+/**
+* Split a conversation into one system string plus user / assistant turns,
+* labelling named user turns and merging consecutive same-role turns (Gemini
+* and Anthropic expect alternating roles).
+*/
+function splitConversation(messages: LlmMessage[]): {
+  system?: string;
+  turns: Array<{ role: 'user' | 'assistant'; content: string }>;
+} {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  messages.forEach((m) => {
+    if (m.role === 'system') return;
+    const label = m.role === 'user' && m.name ? speakerLabel(m.name) : '';
+    const content = label ? `[${label}] ${m.content}` : m.content;
+
+    const last = turns[turns.length - 1];
+    if (last?.role === m.role) last.content += `\n\n${content}`;
+    else turns.push({ role: m.role, content });
+  });
+
+  return { system: system || undefined, turns };
+}
+
 // ------------------------------ OpenAI --------------------------------------
 
-async function openaiGenerateText(
-  prompt: string,
-  opts: GenerateTextOptions,
-): Promise<string> {
+/** Where and how to send an OpenAI-style chat-completions request. */
+interface ChatCompletionsTarget {
+  /** Used in error messages, e.g. "Azure OpenAI API returned HTTP 401". */
+  service: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Sent as `model`. Azure routes by deployment and omits it. */
+  model?: string;
+  /** Key into OPENAI_MODEL_LIMITS for the max_tokens clamp. */
+  limitsKey: string;
+}
+
+async function openaiTarget(opts: GenerateTextOptions): Promise<ChatCompletionsTarget> {
   const apiKey = readConfig('OPENAI_API_KEY');
   if (!apiKey) {
     throw new Error(
@@ -192,6 +578,118 @@ async function openaiGenerateText(
   const modelId =
     opts.modelId || readConfig('OPENAI_MODEL_ID') || DEFAULT_MODELS.openai;
 
+  return {
+    service: 'OpenAI API',
+    url: endpoint,
+    headers: { Authorization: `Bearer ${apiKey}` },
+    model: modelId,
+    limitsKey: modelId,
+  };
+}
+
+/**
+* Azure OpenAI – deployment-scoped URL, `api-key` header and a mandatory
+* `api-version` query parameter. The deployment name doubles as the model
+* id for limit lookups, so name deployments after their model where possible.
+*/
+async function azureOpenaiTarget(opts: GenerateTextOptions): Promise<ChatCompletionsTarget> {
+  const apiKey = readConfig('AZURE_OPENAI_API_KEY');
+  const resource = (opts.endpoint || readConfig('AZURE_OPENAI_ENDPOINT'))?.replace(/\/$/, '');
+  const deployment = opts.modelId || readConfig('AZURE_OPENAI_DEPLOYMENT');
+  if (!apiKey || !resource || !deployment) {
+    throw new Error(
+      'Azure OpenAI needs AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT and ' +
+        'AZURE_OPENAI_DEPLOYMENT – set the env vars or Apps Script properties.',
+    );
+  }
+
+  const apiVersion = readConfig('AZURE_OPENAI_API_VERSION') || AZURE_OPENAI_DEFAULT_API_VERSION;
+  const url =
+    `${resource}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions` +
+    `?api-version=${encodeURIComponent(apiVersion)}`;
+
+  return {
+    service: 'Azure OpenAI API',
+    url,
+    headers: { 'api-key': apiKey },
+    limitsKey: readConfig('AZURE_OPENAI_MODEL_ID') || deployment,
+  };
+}
+
+/**
+* Self-hosted OpenAI-compatible servers (vLLM, Ollama, LM Studio, …). The
+* API key is optional; without a configured model the first entry of the
+* server's `/models` listing is used.
+*/
+async function openaiCompatibleTarget(opts: GenerateTextOptions): Promise<ChatCompletionsTarget> {
+  const base = (opts.endpoint || readConfig('OPENAI_COMPATIBLE_ENDPOINT'))?.replace(/\/$/, '');
+  if (!base) {
+    throw new Error(
+      'Missing OPENAI_COMPATIBLE_ENDPOINT – set the base URL (e.g. http://localhost:11434/v1).',
+    );
+  }
+
+  const apiKey = readConfig('OPENAI_COMPATIBLE_API_KEY');
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const modelId =
+    opts.modelId || readConfig('OPENAI_COMPATIBLE_MODEL_ID') || (await discoverModel(base, headers));
+
+  return {
+    service: 'OpenAI-compatible API',
+    url: `${base}/chat/completions`,
+    headers,
+    model: modelId,
+    limitsKey: modelId,
+  };
+}
+
+/** First model advertised by `GET <base>/models`, cached per base URL. */
+const discoveredModels = new Map<string, string>();
+
+async function discoverModel(base: string, headers: Record<string, string>): Promise<string> {
+  const known = discoveredModels.get(base);
+  if (known) return known;
+
+  const res = await request<{ data?: Array<{ id?: string }> }>({
+    method: 'get',
+    url: `${base}/models`,
+    headers,
+    timeoutMs: 10_000,
+  });
+  if (res.status >= 400) throw httpError('OpenAI-compatible API', res);
+
+  const id = res.data?.data?.find((m) => m.id)?.id;
+  if (!id) {
+    throw new Error(
+      `No models listed at ${base}/models – set OPENAI_COMPATIBLE_MODEL_ID.`,
+    );
+  }
+  discoveredModels.set(base, id);
+  return id;
+}
+
+/** Target for providers speaking the chat-completions protocol, if any. */
+async function chatCompletionsTarget(
+  provider: SupportedProvider,
+  opts: GenerateTextOptions,
+): Promise<ChatCompletionsTarget | undefined> {
+  switch (provider) {
+    case 'openai':
+      return openaiTarget(opts);
+    case 'azure-openai':
+      return azureOpenaiTarget(opts);
+    case 'openai-compatible':
+      return openaiCompatibleTarget(opts);
+    default:
+      return undefined;
+  }
+}
+
+function chatCompletionsBody(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions,
+  target: ChatCompletionsTarget,
+): Record<string, unknown> {
   // Clamp temperature to OpenAI's accepted 0–2 range to avoid 400 errors.
   const rawTemp = typeof opts.temperature === 'number' ? opts.temperature : 0.7;
   const temperature = Math.min(Math.max(rawTemp, 0), 2);
@@ -199,25 +697,251 @@ async function openaiGenerateText(
   // Clamp maxTokens to provider/model limits.
   const requestedMax =
     typeof opts.maxTokens === 'number' ? opts.maxTokens : 1024;
-  const modelCap = OPENAI_MODEL_LIMITS[modelId] ?? 1_000_000;
+  const modelCap = OPENAI_MODEL_LIMITS[target.limitsKey] ?? 1_000_000;
   const maxTokens = Math.min(Math.max(requestedMax, 1), modelCap);
 
+  return {
+    ...(target.model ? { model: target.model } : {}),
+    messages: messages.map((m) => {
+      const name = m.role === 'user' && m.name ? openaiName(m.name) : undefined;
+      return name ? { role: m.role, content: m.content, name } : { role: m.role, content: m.content };
+    }),
+    temperature,
+    max_tokens: maxTokens,
+  };
+}
+
+/** Shared chat-completions request / response handling. */
+async function chatCompletions(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions,
+  target: ChatCompletionsTarget,
+): Promise<string> {
+  const body = chatCompletionsBody(messages, opts, target);
+  const json = await httpPostJson(target.service, target.url, target.headers, body);
+
+  const content: string | undefined = json?.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error(`${target.service} response missing choices[0].message.content`);
+  }
+
+  return content;
+}
+
+/**
+* Streaming chat completions (`stream: true`): parse the server-sent events
+* and yield each `choices[0].delta.content` fragment until `[DONE]`.
+*/
+async function* chatCompletionsStream(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions,
+  target: ChatCompletionsTarget,
+): AsyncGenerator<string> {
+  const body = { ...chatCompletionsBody(messages, opts, target), stream: true };
+  const res = await requestStream({
+    method: 'post',
+    url: target.url,
+    headers: { ...target.headers, Accept: 'text/event-stream' },
+    json: body,
+    timeoutMs: llmTimeoutMs(),
+  });
+
+  if (res.status >= 400) {
+    const text = await readStreamText(res.body);
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Non-JSON error body – keep the raw text.
+    }
+    throw withDevelopmentBody(httpError(target.service, { status: res.status, headers: res.headers, data }));
+  }
+
+  for await (const evt of parseSseStream(res.body)) {
+    if (evt.data === '[DONE]') return;
+
+    /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+    let json: any;
+    try {
+      json = JSON.parse(evt.data);
+    } catch {
+      throw new Error(`${target.service} stream sent a malformed event`);
+    }
+
+    if (json?.error) {
+      throw new Error(`${target.service} stream error: ${json.error.message ?? 'unknown error'}`);
+    }
+
+    const delta: string | undefined = json?.choices?.[0]?.delta?.content;
+    if (delta) yield delta;
+  }
+}
+
+// ------------------------------ Gemini --------------------------------------
+
+/** Readable hints for the `error.status` values Gemini commonly returns. */
+const GEMINI_ERROR_HINTS: Record<string, string> = {
+  INVALID_ARGUMENT: 'invalid request or API key – check GEMINI_API_KEY and GEMINI_MODEL_ID',
+  PERMISSION_DENIED: 'API key lacks access to this model',
+  NOT_FOUND: 'unknown model – check GEMINI_MODEL_ID',
+  RESOURCE_EXHAUSTED: 'quota or rate limit exceeded',
+  UNAVAILABLE: 'service temporarily unavailable',
+};
+
+async function geminiGenerateChat(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions,
+): Promise<string> {
+  const apiKey = readConfig('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error(
+      'Missing GEMINI_API_KEY – set the env var or Apps Script property.',
+    );
+  }
+
+  const base =
+    opts.endpoint?.replace(/\/$/, '') ||
+    readConfig('GEMINI_ENDPOINT')?.replace(/\/$/, '') ||
+    GEMINI_DEFAULT_ENDPOINT;
+
+  const modelId =
+    opts.modelId || readConfig('GEMINI_MODEL_ID') || DEFAULT_MODELS.gemini;
+
+  const rawTemp = typeof opts.temperature === 'number' ? opts.temperature : 0.7;
+  const temperature = Math.min(Math.max(rawTemp, 0), GEMINI_MAX_TEMPERATURE[modelId] ?? 2);
+
+  const requestedMax =
+    typeof opts.maxTokens === 'number' ? opts.maxTokens : 1024;
+  const modelCap = GEMINI_MODEL_LIMITS[modelId] ?? 8_192;
+  const maxOutputTokens = Math.min(Math.max(requestedMax, 1), modelCap);
+
+  const { system, turns } = splitConversation(messages);
+  const body = {
+    contents: turns.map((t) => ({
+      role: t.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: t.content }],
+    })),
+    generationConfig: { temperature, maxOutputTokens },
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+  };
+
+  // Header rather than `?key=` so the key never shows up in request logs.
+  const headers: Record<string, string> = { 'x-goog-api-key': apiKey };
+  const url = `${base}/models/${encodeURIComponent(modelId)}:generateContent`;
+
+  /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+  let json: any;
+  try {
+    json = await httpPostJson('Gemini API', url, headers, body);
+  } catch (err) {
+    const status = (err as { data?: { error?: { status?: string } } })?.data?.error?.status;
+    annotateProviderError(err, status, GEMINI_ERROR_HINTS);
+    throw err;
+  }
+
+  const blockReason: string | undefined = json?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new Error(`Gemini blocked the prompt (${blockReason})`);
+  }
+
+  const candidate = json?.candidates?.[0];
+  const finishReason: string | undefined = candidate?.finishReason;
+  if (finishReason && GEMINI_BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new Error(`Gemini withheld the response (${finishReason})`);
+  }
+
+  const content = ((candidate?.content?.parts ?? []) as Array<{ text?: string }>)
+    .map((part) => part.text ?? '')
+    .join('');
+  if (!content) {
+    throw new Error('Gemini response missing candidates[0].content.parts text');
+  }
+
+  return content;
+}
+
+// ----------------------------- Anthropic ------------------------------------
+
+/** Readable hints for Anthropic `error.type` values. */
+const ANTHROPIC_ERROR_HINTS: Record<string, string> = {
+  authentication_error: 'API key rejected – check ANTHROPIC_API_KEY',
+  permission_error: 'API key lacks access to this model',
+  not_found_error: 'unknown model – check ANTHROPIC_MODEL_ID',
+  rate_limit_error: 'rate limit exceeded',
+  overloaded_error: 'API temporarily overloaded',
+};
+
+function anthropicMaxTokens(modelId: string): number {
+  const match = ANTHROPIC_MODEL_LIMITS.find(([prefix]) => modelId.startsWith(prefix));
+  return match ? match[1] : 4_096;
+}
+
+async function anthropicGenerateChat(
+  messages: LlmMessage[],
+  opts: GenerateTextOptions,
+): Promise<string> {
+  const apiKey = readConfig('ANTHROPIC_API_KEY');
+  if (!apiKey) {
+    throw new Error(
+      'Missing ANTHROPIC_API_KEY – set the env var or Apps Script property.',
+    );
+  }
+
+  const endpoint =
+    opts.endpoint?.replace(/\/$/, '') ||
+    readConfig('ANTHROPIC_ENDPOINT')?.replace(/\/$/, '') ||
+    ANTHROPIC_DEFAULT_ENDPOINT;
+
+  const modelId =
+    opts.modelId || readConfig('ANTHROPIC_MODEL_ID') || DEFAULT_MODELS.anthropic;
+
+  // The Messages API accepts temperatures from 0 to 1.
+  const rawTemp = typeof opts.temperature === 'number' ? opts.temperature : 0.7;
+  const temperature = Math.min(Math.max(rawTemp, 0), 1);
+
+  const requestedMax =
+    typeof opts.maxTokens === 'number' ? opts.maxTokens : 1024;
+  const maxTokens = Math.min(Math.max(requestedMax, 1), anthropicMaxTokens(modelId));
+
+  const { system, turns } = splitConversation(messages);
+  // The Messages API requires the conversation to open with a user turn.
+  if (turns[0].role === 'assistant') {
+    turns.unshift({ role: 'user', content: '(earlier conversation omitted)' });
+  }
+
   const body = {
     model: modelId,
-    messages: [{ role: 'user', content: prompt }],
-    temperature,
     max_tokens: maxTokens,
-  } as const;
+    temperature,
+    messages: turns,
+    ...(system ? { system } : {}),
+  };
 
   const headers: Record<string, string> = {
-    Authorization: `Bearer ${apiKey}`,
+    'x-api-key': apiKey,
+    'anthropic-version': ANTHROPIC_API_VERSION,
   };
 
-  const json = await httpPostJson(endpoint, headers, body);
+  /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+  let json: any;
+  try {
+    json = await httpPostJson('Anthropic API', endpoint, headers, body);
+  } catch (err) {
+    const type = (err as { data?: { error?: { type?: string } } })?.data?.error?.type;
+    annotateProviderError(err, type, ANTHROPIC_ERROR_HINTS);
+    throw err;
+  }
 
-  const content: string | undefined = json?.choices?.[0]?.message?.content;
+  if (json?.stop_reason === 'refusal') {
+    throw new Error('Anthropic declined to answer (refusal)');
+  }
+
+  const content = ((json?.content ?? []) as Array<{ type?: string; text?: string }>)
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text ?? '')
+    .join('');
   if (!content) {
-    throw new Error('OpenAI response missing choices[0].message.content');
+    throw new Error('Anthropic response missing text content blocks');
   }
 
   return content;
@@ -0,0 +1,16 @@
+/**
+* tiktokenRanks.d.ts
+*
+* Types for js-tiktoken's rank tables. They are published as package
+* `exports` subpaths, which `"moduleResolution": "node"` cannot see.
+*/
+
+declare module 'js-tiktoken/ranks/*' {
+  const encoding: {
+    pat_str: string;
+    special_tokens: Record<string, number>;
+    /** Compressed ranks: lines of `<first rank> <base64 token> …`. */
+    bpe_ranks: string;
+  };
+  export default encoding;
+}
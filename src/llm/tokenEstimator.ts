@@ -0,0 +1,137 @@
+/**
+* tokenEstimator.ts
+*
+* Pluggable token counting used to size prompts before they are sent.
+*
+* Estimators:
+*   1. OpenAI / Azure OpenAI – the byte-level BPE tokenizer in `bpe.ts`
+*      (`o200k_base` for GPT-4o / 4.1 / o-series models, `cl100k_base`
+*      otherwise), plus the documented chat framing of 3 tokens per message,
+*      1 per `name` and 3 to prime the reply.
+*   2. Everyone else – a character-based estimate calibrated per provider,
+*      with CJK text and punctuation-heavy content (code, URLs) weighted
+*      separately since they tokenize far less efficiently than prose.
+*
+* `setTokenEstimator()` swaps in a custom implementation for every provider.
+*/
+
+import { BpeEncoding, countBpeTokens } from './bpe';
+import type { LlmMessage, LlmTarget } from './index';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TokenEstimator {
+  /** Tokens `text` encodes to. */
+  countText(text: string): number;
+  /** Tokens one chat turn costs, including role / name / delimiter framing. */
+  countMessage(message: LlmMessage): number;
+  /** Fixed tokens the provider adds to prime the assistant's reply. */
+  readonly replyPriming: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Models tokenized with `o200k_base`; older ones use `cl100k_base`. */
+const O200K_MODEL = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d)/;
+
+/** Characters per token of plain Latin-script text, by provider. */
+const CHARS_PER_TOKEN: Partial<Record<LlmTarget['provider'], number>> = {
+  anthropic: 3.5,
+  gemini: 4,
+};
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+/** Role / turn delimiters of providers without documented framing costs. */
+const CHAR_MESSAGE_FRAMING = 4;
+const CHAR_REPLY_PRIMING = 3;
+
+const CJK = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/;
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+let override: TokenEstimator | null = null;
+
+// ---------------------------------------------------------------------------
+// Estimators
+// ---------------------------------------------------------------------------
+
+/** OpenAI chat-format counting on top of the BPE tokenizer. */
+export function createBpeEstimator(encoding: BpeEncoding): TokenEstimator {
+  const countText = (text: string): number => countBpeTokens(text, encoding);
+  return {
+    countText,
+    countMessage: (message) =>
+      3 + countText(message.role) + countText(message.content) + (message.name ? 1 + countText(message.name) : 0),
+    replyPriming: 3,
+  };
+}
+
+/**
+* Character-based estimate: `charsPerToken` for letters, digits and
+* whitespace, half a token per ASCII punctuation mark, one per CJK character
+* and half a token for any other non-ASCII character.
+*/
+export function createCharEstimator(charsPerToken: number = DEFAULT_CHARS_PER_TOKEN): TokenEstimator {
+  const countText = (text: string): number => {
+    if (!text) return 0;
+    let plain = 0;
+    let weighted = 0;
+    for (const ch of text) {
+      if (CJK.test(ch)) weighted += 1;
+      else if (ch.charCodeAt(0) > 0x7f) weighted += 0.5;
+      else if (ASCII_PUNCTUATION.test(ch)) weighted += 0.5;
+      else plain += 1;
+    }
+    return Math.ceil(plain / charsPerToken + weighted);
+  };
+
+  return {
+    countText,
+    // Speaker names travel as a `[name] ` prefix on these providers.
+    countMessage: (message) =>
+      CHAR_MESSAGE_FRAMING + countText(message.content) + (message.name ? countText(`[${message.name}] `) : 0),
+    replyPriming: CHAR_REPLY_PRIMING,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Estimator matching the tokenizer of `target`'s provider and model. */
+export function getTokenEstimator(target: Pick<LlmTarget, 'provider' | 'modelId'>): TokenEstimator {
+  if (override) return override;
+
+  if (target.provider === 'openai' || target.provider === 'azure-openai') {
+    return createBpeEstimator(O200K_MODEL.test(target.modelId ?? '') ? 'o200k_base' : 'cl100k_base');
+  }
+  return createCharEstimator(CHARS_PER_TOKEN[target.provider] ?? DEFAULT_CHARS_PER_TOKEN);
+}
+
+/**
+* Estimator for a prompt that any of `targets` may receive (fallback chain):
+* every count is the largest of the individual estimators'.
+*/
+export function getChainTokenEstimator(targets: Array<Pick<LlmTarget, 'provider' | 'modelId'>>): TokenEstimator {
+  const estimators = targets.map(getTokenEstimator);
+  if (estimators.length === 1) return estimators[0];
+
+  const largest = (count: (e: TokenEstimator) => number): number => Math.max(0, ...estimators.map(count));
+  return {
+    countText: (text) => largest((e) => e.countText(text)),
+    countMessage: (message) => largest((e) => e.countMessage(message)),
+    replyPriming: largest((e) => e.replyPriming),
+  };
+}
+
+/** Use `estimator` for every provider; pass `null` to restore the defaults. */
+export function setTokenEstimator(estimator: TokenEstimator | null): void {
+  override = estimator;
+}
@@ -0,0 +1,187 @@
+/**
+* ChatMessageNormaliser.ts
+*
+* Normalisation layer between `getThreadMessages()` and
+* `parseThreadMessages()`. Google Chat messages carry Chat-specific markup
+* (`*bold*`, `_italic_`, `~strike~`, `<url|label>`, `<users/123>`) plus
+* annotations for user mentions and slash commands. This module turns them
+* into clean, standard Markdown so captured knowledge and LLM prompts read
+* naturally:
+*
+*   – user mentions are resolved to `@Display Name`;
+*   – a leading @mention of a bot (and a leading `/command`) is stripped;
+*   – Chat formatting and links are converted to Markdown, leaving code
+*     spans and fenced blocks untouched.
+*
+* The module is dependency-free so it can run in both Apps Script and Node.js.
+*/
+
+import { extractChatAttachments, MessageRole, RawThreadMessage } from './ThreadDataProcessor';
+import type { ChatMessageAttachmentFields } from './ThreadDataProcessor';
+
+// ---------------------------------------------------------------------------
+// Type definitions
+// ---------------------------------------------------------------------------
+
+/** Chat user as it appears on senders and mention annotations. */
+interface ChatUserLike {
+  name?: string; // e.g. "users/123"
+  displayName?: string;
+  type?: string; // "HUMAN" | "BOT"
+}
+
+/** A Chat `annotations[]` entry – only the fields read here. */
+export interface ChatAnnotation {
+  type?: string; // "USER_MENTION" | "SLASH_COMMAND" | "RICH_LINK" | …
+  startIndex?: number;
+  length?: number;
+  userMention?: { user?: ChatUserLike; type?: string };
+  slashCommand?: { commandName?: string; bot?: ChatUserLike };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+/** The subset of a Google Chat API message read by this module. */
+export interface ChatMessageLike extends ChatMessageAttachmentFields {
+  name?: string;
+  text?: string;
+  createTime?: string;
+  sender?: ChatUserLike;
+  annotations?: ChatAnnotation[];
+  isAiBot?: boolean;
+  /** Set by GoogleChatService.classifySender(). */
+  senderRole?: MessageRole;
+}
+
+export interface NormaliseOptions {
+  /** Additional user ids (e.g. "users/123") to treat as bots. */
+  botUserIds?: string[];
+  /** Fallback display names for `<users/…>` tokens without an annotation. */
+  userNames?: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Markup conversion
+// ---------------------------------------------------------------------------
+
+/** Fenced blocks first, then inline code spans. */
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+
+function convertFormatting(text: string): string {
+  return (
+    text
+      // *bold* → **bold**
+      .replace(/(^|[^\w*])\*(?!\s)([^*\n]+?)(?<!\s)\*(?![\w*])/g, '$1**$2**')
+      // _italic_ → *italic*
+      .replace(/(^|[^\w_])_(?!\s)([^_\n]+?)(?<!\s)_(?![\w_])/g, '$1*$2*')
+      // ~strike~ → ~~strike~~
+      .replace(/(^|[^\w~])~(?!\s)([^~\n]+?)(?<!\s)~(?![\w~])/g, '$1~~$2~~')
+  );
+}
+
+/**
+* Convert Chat markup into standard Markdown.
+*
+* @param userNames Map of `users/…` ids to display names used for
+*                  `<users/…>` tokens; unknown ids render as `@users/…`.
+*/
+export function chatMarkupToMarkdown(text: string, userNames: Record<string, string> = {}): string {
+  if (!text) return '';
+
+  const convert = (chunk: string): string =>
+    convertFormatting(
+      chunk
+        .replace(/<(users\/[^>|\s]+)>/g, (_m, id: string) =>
+          id === 'users/all' ? '@all' : `@${userNames[id] ?? id}`
+        )
+        .replace(/<((?:https?|mailto):[^>|\s]+)\|([^>]+)>/g, '[$2]($1)')
+        .replace(/<((?:https?|mailto):[^>|\s]+)>/g, '$1')
+    );
+
+  // Leave code untouched – convert only the text between code segments.
+  let out = '';
+  let last = 0;
+  for (const match of text.matchAll(CODE_PATTERN)) {
+    const index = match.index ?? 0;
+    out += convert(text.slice(last, index)) + match[0];
+    last = index + match[0].length;
+  }
+  return out + convert(text.slice(last));
+}
+
+// ---------------------------------------------------------------------------
+// Message normalisation
+// ---------------------------------------------------------------------------
+
+function isBotUser(user: ChatUserLike | undefined, opts: NormaliseOptions): boolean {
+  if (!user) return false;
+  return user.type === 'BOT' || (!!user.name && (opts.botUserIds ?? []).includes(user.name));
+}
+
+/**
+* Return the message text as normalised Markdown: mentions resolved, leading
+* bot mentions / slash commands stripped and Chat markup converted.
+*/
+export function normaliseChatMessageText(msg: ChatMessageLike, opts: NormaliseOptions = {}): string {
+  let text = msg.text ?? '';
+  const annotations = msg.annotations ?? [];
+
+  // Display names from mention annotations, with caller-supplied fallbacks.
+  const userNames: Record<string, string> = { ...(opts.userNames ?? {}) };
+  annotations.forEach((a) => {
+    const user = a.userMention?.user;
+    if (user?.name && user.displayName) userNames[user.name] = user.displayName;
+  });
+
+  // Splice annotated ranges from the end so earlier indices stay valid.
+  const ranged = annotations
+    .filter((a) => typeof a.startIndex === 'number' && typeof a.length === 'number')
+    .sort((a, b) => (b.startIndex as number) - (a.startIndex as number));
+
+  ranged.forEach((a) => {
+    const start = a.startIndex as number;
+    const end = start + (a.length as number);
+    const leading = text.slice(0, start).trim() === '';
+
+    let replacement: string | undefined;
+    if (a.type === 'SLASH_COMMAND' && leading) {
+      replacement = '';
+    } else if (a.type === 'USER_MENTION') {
+      const user = a.userMention?.user;
+      if (leading && isBotUser(user, opts)) {
+        replacement = '';
+      } else if (user?.displayName) {
+        replacement = `@${user.displayName}`;
+      }
+    }
+
+    if (replacement !== undefined) {
+      text = text.slice(0, start) + replacement + text.slice(end);
+    }
+  });
+
+  return chatMarkupToMarkdown(text.trim(), userNames).trim();
+}
+
+/** Prefer the service's classification; fall back to the raw sender. */
+function senderRole(msg: ChatMessageLike, opts: NormaliseOptions): MessageRole {
+  if (msg.senderRole) return msg.senderRole;
+  if (msg.isAiBot) return 'assistant';
+  return isBotUser(msg.sender, opts) ? 'bot' : 'human';
+}
+
+/**
+* Map a Google Chat message onto the `RawThreadMessage` shape consumed by
+* `parseThreadMessages()`.
+*/
+export function toRawThreadMessage(msg: ChatMessageLike, opts: NormaliseOptions = {}): RawThreadMessage {
+  return {
+    messageId: msg.name ?? '',
+    authorId: msg.sender?.displayName || msg.sender?.name || 'unknown',
+    content: normaliseChatMessageText(msg, opts),
+    timestamp: msg.createTime ?? new Date().toISOString(),
+    isBot: msg.isAiBot ?? false,
+    role: senderRole(msg, opts),
+    attachments: extractChatAttachments(msg),
+  };
+}
@@ -3,7 +3,8 @@
 *
 * Utility to transform an ordered array of raw thread messages into a
 * structured knowledge representation that clearly separates the original
-* question, AI-generated responses, and any subsequent human corrections.
+* question, AI-generated responses, any subsequent human corrections and
+* messages from other bots.
 *
 * This implements Linear issue VEN-31.
 */
@@ -16,7 +17,8 @@
 * Raw inbound message as returned from Google Chat (or any other source).
 * The list provided to the parser MUST be ordered chronologically – earliest
 * message first. All properties are required by the acceptance criteria
-* except `isBot`, which is optional and used for classification when present.
+* except `role` / `isBot`, which are optional and used for classification
+* when present.
 */
 export interface RawThreadMessage {
   /** Unique identifier for the message (e.g. resource name) */
@@ -32,20 +34,113 @@ export interface RawThreadMessage {
    * matching performed by the caller or downstream service.
    */
   isBot?: boolean;
+  /**
+   * Sender role – takes precedence over `isBot`. Lets the parser tell our
+   * assistant apart from other bots, which must not count as corrections.
+   */
+  role?: MessageRole;
+  /** Files, Drive items and links shared with the message. */
+  attachments?: MessageAttachment[];
+}
+
+/**
+* `assistant` – our AI bot; `bot` – any other Chat app; `human` – a person.
+*/
+export type MessageRole = 'assistant' | 'bot' | 'human';
+
+/** File or link shared alongside a message. */
+export interface MessageAttachment {
+  /** File name, or the URL itself for plain links. */
+  name: string;
+  contentType?: string;
+  /** Where a reader can open the attachment, when one is known. */
+  url?: string;
+  source: 'upload' | 'drive' | 'link';
 }
 
 /** Convenience helper that extracts only the fields required by the output */
-export type MessageSummary = Pick<RawThreadMessage, 'content' | 'authorId' | 'timestamp' | 'messageId'>;
+export type MessageSummary = Pick<
+  RawThreadMessage,
+  'content' | 'authorId' | 'timestamp' | 'messageId' | 'attachments' | 'role'
+>;
 
 /** Output structure produced by the processor */
 export interface ThreadKnowledgeData {
   originalQuestion: MessageSummary;
   responses: Array<{
     aiResponse: MessageSummary;
+    /** Human follow-ups to the AI response. */
     corrections: MessageSummary[];
+    /** Messages from other bots posted after the AI response, if any. */
+    otherBotMessages?: MessageSummary[];
   }>;
 }
 
+// ---------------------------------------------------------------------------
+// Attachment extraction – Google Chat message → MessageAttachment[]
+// ---------------------------------------------------------------------------
+
+/**
+* The subset of a Google Chat API message read by `extractChatAttachments()`.
+* Kept structural so this module stays free of service imports.
+*/
+export interface ChatMessageAttachmentFields {
+  attachment?: Array<{
+    name?: string;
+    contentName?: string;
+    contentType?: string;
+    source?: string;
+    driveDataRef?: { driveFileId?: string };
+    downloadUri?: string;
+  }>;
+  annotations?: Array<{
+    type?: string;
+    richLinkMetadata?: {
+      uri?: string;
+      richLinkType?: string;
+      driveLinkData?: { mimeType?: string };
+    };
+  }>;
+}
+
+/**
+* Collect uploaded files, Drive attachments and rich (smart-chip) links from a
+* Google Chat message. Links already covered by an attachment are skipped.
+*/
+export function extractChatAttachments(msg: ChatMessageAttachmentFields): MessageAttachment[] {
+  const out: MessageAttachment[] = [];
+  const seen = new Set<string>();
+
+  (msg.attachment ?? []).forEach((a) => {
+    const driveId = a.driveDataRef?.driveFileId;
+    const isDrive = a.source === 'DRIVE_FILE' || !!driveId;
+    const url = isDrive && driveId ? `https://drive.google.com/open?id=${driveId}` : a.downloadUri;
+
+    out.push({
+      name: a.contentName || a.name || 'attachment',
+      contentType: a.contentType,
+      url,
+      source: isDrive ? 'drive' : 'upload',
+    });
+    if (url) seen.add(url);
+  });
+
+  (msg.annotations ?? []).forEach((ann) => {
+    const link = ann.type === 'RICH_LINK' ? ann.richLinkMetadata : undefined;
+    if (!link?.uri || seen.has(link.uri)) return;
+
+    seen.add(link.uri);
+    out.push({
+      name: link.uri,
+      contentType: link.driveLinkData?.mimeType,
+      url: link.uri,
+      source: link.richLinkType === 'DRIVE_FILE' ? 'drive' : 'link',
+    });
+  });
+
+  return out;
+}
+
 // ---------------------------------------------------------------------------
 // Serialisation helper – converts structured data to Markdown (fallback JSON)
 // ---------------------------------------------------------------------------
@@ -70,13 +165,18 @@ export const MAX_SHEETS_CELL_LEN = 50_000;
 * ## Original Question  (2025-07-25 10:00)
 * <content>
 *
+* Attachments: [error.log](https://…) (text/plain), screenshot.png (image/png)
+*
 * ## AI Response #1  (2025-07-25 10:01)
 * <assistant answer>
 *
 * ### Corrections
-* - (2025-07-25 10:02) user123: <text>
+* - (2025-07-25 10:02) user123: <text> (attachments: [doc](https://…))
 * - …
 *
+* ### Other Bots
+* - (2025-07-25 10:03) JiraBot: <text>
+*
 * ## AI Response #2 …
 * ```
 *
@@ -101,22 +201,44 @@ export function serialiseThreadKnowledgeMarkdown(data: ThreadKnowledgeData): str
     return d.toISOString().slice(0, 16).replace('T', ' ');
   };
 
+  // Attachments render as Markdown links when a URL is known, otherwise as an
+  // inline "name (type)" summary.
+  const fmtAttachments = (attachments?: MessageAttachment[]): string =>
+    (attachments ?? [])
+      .map((a) => {
+        const label = a.url ? `[${a.name}](${a.url})` : a.name;
+        return a.contentType ? `${label} (${a.contentType})` : label;
+      })
+      .join(', ');
+
+  const pushBlock = (msg: MessageSummary): void => {
+    parts.push(msg.content.trim());
+    const attachments = fmtAttachments(msg.attachments);
+    if (attachments) parts.push(`Attachments: ${attachments}`);
+  };
+
+  const pushList = (heading: string, items: MessageSummary[]): void => {
+    if (!items.length) return;
+    parts.push('');
+    parts.push(`### ${heading}`);
+    items.forEach((c) => {
+      const attachments = fmtAttachments(c.attachments);
+      const suffix = attachments ? ` (attachments: ${attachments})` : '';
+      parts.push(`- (${fmtTs(c.timestamp)}) ${c.authorId}: ${c.content.trim()}${suffix}`);
+    });
+  };
+
   // Original question
   parts.push(`## Original Question  (${fmtTs(data.originalQuestion.timestamp)})`);
-  parts.push(data.originalQuestion.content.trim());
+  pushBlock(data.originalQuestion);
 
   data.responses.forEach((block, idx) => {
     parts.push('');
     parts.push(`## AI Response #${idx + 1}  (${fmtTs(block.aiResponse.timestamp)})`);
-    parts.push(block.aiResponse.content.trim());
-
-    if (block.corrections.length) {
-      parts.push('');
-      parts.push('### Corrections');
-      block.corrections.forEach((c) => {
-        parts.push(`- (${fmtTs(c.timestamp)}) ${c.authorId}: ${c.content.trim()}`);
-      });
-    }
+    pushBlock(block.aiResponse);
+
+    pushList('Corrections', block.corrections);
+    pushList('Other Bots', block.otherBotMessages ?? []);
   });
 
   let markdown = parts.join('\n');
@@ -133,18 +255,33 @@ export function serialiseThreadKnowledgeMarkdown(data: ThreadKnowledgeData): str
 // ---------------------------------------------------------------------------
 
 /**
-* Determine whether a given message should be treated as an AI response.
+* Determine the role of a message's sender.
 *
-* We first honour the explicit `isBot` flag when supplied. If that flag is
-* absent we apply a VERY naive heuristic: authorId starts with 'bot/' or
-* equals 'AI'. Callers that require stricter logic should precompute the
-* isBot property.
+* An explicit `role` wins, then the `isBot` flag (true → our assistant). Only
+* when neither is supplied do we fall back to a VERY naive heuristic:
+* authorId starts with 'bot/' or equals 'AI'. Callers should precompute
+* `role` (see ChatMessageNormaliser.toRawThreadMessage()).
 */
-function isAiMessage(msg: RawThreadMessage): boolean {
-  if (typeof msg.isBot === 'boolean') return msg.isBot;
+export function messageRole(msg: RawThreadMessage): MessageRole {
+  if (msg.role) return msg.role;
+  if (typeof msg.isBot === 'boolean') return msg.isBot ? 'assistant' : 'human';
 
   const id = msg.authorId?.toLowerCase?.() ?? '';
-  return id.startsWith('bot/') || id === 'ai' || id === 'ai-bot' || id === 'aibot';
+  const looksLikeAi = id.startsWith('bot/') || id === 'ai' || id === 'ai-bot' || id === 'aibot';
+  return looksLikeAi ? 'assistant' : 'human';
+}
+
+/** Copy the output fields, omitting `attachments` when there are none. */
+function summarise(msg: RawThreadMessage): MessageSummary {
+  const summary: MessageSummary = {
+    content: msg.content,
+    authorId: msg.authorId,
+    timestamp: msg.timestamp,
+    messageId: msg.messageId,
+    role: messageRole(msg),
+  };
+  if (msg.attachments?.length) summary.attachments = msg.attachments;
+  return summary;
 }
 
 /**
@@ -161,12 +298,7 @@ export function parseThreadMessages(messages: RawThreadMessage[]): ThreadKnowled
   // The first message is always the original question.
   const [first, ...rest] = messages;
 
-  const originalQuestion: MessageSummary = {
-    content: first.content,
-    authorId: first.authorId,
-    timestamp: first.timestamp,
-    messageId: first.messageId,
-  };
+  const originalQuestion: MessageSummary = summarise(first);
 
   const structured: ThreadKnowledgeData = {
     originalQuestion,
@@ -177,25 +309,23 @@ export function parseThreadMessages(messages: RawThreadMessage[]): ThreadKnowled
   let currentResponseBlock: (typeof structured.responses[number]) | null = null;
 
   for (const msg of rest) {
-    const summary: MessageSummary = {
-      content: msg.content,
-      authorId: msg.authorId,
-      timestamp: msg.timestamp,
-      messageId: msg.messageId,
-    };
+    const summary: MessageSummary = summarise(msg);
 
-    if (isAiMessage(msg)) {
+    if (summary.role === 'assistant') {
       // Close out any previous block and start a new one.
       currentResponseBlock = {
         aiResponse: summary,
         corrections: [],
       };
       structured.responses.push(currentResponseBlock);
+    } else if (currentResponseBlock && summary.role === 'bot') {
+      // Another app replying (ticket bots, CI notifiers…) – not a correction.
+      (currentResponseBlock.otherBotMessages ??= []).push(summary);
     } else if (currentResponseBlock) {
       // Human message following an AI response → treat as correction.
       currentResponseBlock.corrections.push(summary);
     } else {
-      // Human message without preceding AI response – out-of-scope per spec.
+      // Message without preceding AI response – out-of-scope per spec.
       // We simply ignore it (alternatively we could attach it to a phantom
       // response, but the ACs don’t specify). Logging left to the caller.
       // eslint-disable-next-line no-continue
@@ -1,7 +1,7 @@
 /**
 * ChatBot.ts
-* Google Chat bot handler exposing onMessage, onSlashCommand, and doPost
-* entry points.
+* Google Chat bot handler exposing onMessage, onSlashCommand, onAddToSpace,
+* onRemoveFromSpace, onCardClick, and doPost entry points.
 *
 * NOTE: **Do not** add Node-specific imports at the top-level of this file.
 * When the bundle is executed inside Google Apps Script (GAS) the runtime does
@@ -22,102 +22,45 @@
 // Structured logger – ensures consistent JSON logs across all modules.
 import { error as logError } from '../utils/logger';
 
-// ---------------------------------------------------------------------------
-// Runtime detection helpers
-// ---------------------------------------------------------------------------
-
-// ---------------------------------------------------------------------------
-// Memoised dynamic imports – GoogleChatService & LLM abstraction
-// ---------------------------------------------------------------------------
-
-/**
-* Cache objects for dynamically imported heavy modules so that `import()` is
-* executed only once per module. Subsequent calls reuse the already–resolved
-* module reference which avoids repeated module graph construction (and
-* potential network/disk latency when running in a non-bundled Node.js
-* environment such as tests).
-*/
-
-// eslint-disable-next-line @typescript-eslint/consistent-type-imports
-let chatServiceModule: typeof import('../services/GoogleChatService') | null = null;
-
-// eslint-disable-next-line @typescript-eslint/consistent-type-imports
-let llmModule: typeof import('../llm/index') | null = null;
-
-/**
-* Very small feature-flag that tells us whether we are executing inside a
-* Node.js process. When bundled for Apps Script the global `process` object is
-* absent, so this check reliably discriminates between the two runtimes.
-*/
-const IS_NODE: boolean = typeof process !== 'undefined' && !!process?.versions?.node;
-
-// ---------------------------------------------------------------------------
-// Lazy Google Sheets integration (loaded only under Node.js)
-// ---------------------------------------------------------------------------
-
-type FormatCapturedKnowledgeFn = (entry: {
-  timestamp: string;
-  source: string;
-  content: string;
-  tags?: string[];
-}) => string[];
-
-type AppendRowsFn = (rows: string[][]) => Promise<void>;
-
-let formatCapturedKnowledge: FormatCapturedKnowledgeFn | null = null;
-let appendRows: AppendRowsFn | null = null;
-
-// Cached promise used to ensure the dynamic import happens at most once per
-// process. Subsequent callers of `ensureSheetsIntegration()` await the same
-// promise, guaranteeing idempotent initialisation.
-let sheetsIntegrationPromise: Promise<void> | null = null;
-
-/**
-* Dynamically import the Google Sheets integration the first time we need it.
-*
-* Because `import()` is just an expression it will be parsed without being
-* executed under GAS, but we still guard the call with `IS_NODE` to prevent
-* accidental resolution attempts.
-*/
-function ensureSheetsIntegration(): Promise<void> {
-  // Fast-exit when running under Apps Script / non-Node environments.
-  if (!IS_NODE) return Promise.resolve();
-
-  // If the helpers are already populated we have nothing to do. Prefer the
-  // cached promise (if any) so that concurrent callers share the same state.
-  if (formatCapturedKnowledge && appendRows) {
-    return sheetsIntegrationPromise ?? Promise.resolve();
-  }
-
-  // First caller kicks off the dynamic import and stores the resulting promise
-  // so that all other callers await the same work.
-  if (!sheetsIntegrationPromise) {
-    sheetsIntegrationPromise = import('../integrations/googleSheets')
-      .then((mod) => {
-        formatCapturedKnowledge = mod.formatCapturedKnowledge as FormatCapturedKnowledgeFn;
-        appendRows = mod.appendRows as AppendRowsFn;
-      })
-      .catch((err) => {
-        // Surface the error to all awaiters but keep a rejected promise cached
-        // so that future calls don’t repeatedly attempt to import.
-        logError('Failed to load googleSheets integration', { err });
-        throw err;
-      });
-  }
-
-  return sheetsIntegrationPromise;
-}
+// Runtime feature flags.
+import { isAiEnabled } from '../utils/runtime';
+
+// Slash-command registry – importing `commands` registers the built-ins.
+import {
+  ChatEvent,
+  ChatResponse,
+  findCommand,
+  getEventCommandId,
+  runCommand,
+} from '../controllers/commandRegistry';
+import { askCommand } from '../controllers/commands';
+
+// Shared AI answer pipeline (thread context → prompt → LLM).
+import { answerQuestion, streamAnswer } from '../controllers/answerQuestion';
+
+// Async reply mode (acknowledge first, answer through the Chat REST API).
+import {
+  isAsyncReplyEnabled,
+  isStreamingReplyEnabled,
+  replyAsync,
+  replyStreaming,
+} from '../controllers/asyncReply';
+
+// Cards v2 reply layouts (also registers the "markHelpful" card action).
+import { buildAnswerMessage } from '../controllers/replyCards';
+
+// Space lifecycle + card-click dispatch.
+import { handleAddedToSpace, handleRemovedFromSpace } from '../controllers/spaceLifecycle';
+import { getActionName, runCardAction } from '../controllers/cardActions';
 
 // ---------------------------------------------------------------------------
 // Types & basic helpers
 // ---------------------------------------------------------------------------
 
-type ChatEvent = any; // Inline type placeholder – Apps Script runtime provides dynamic payload.
-
 /**
 * Utility to build a simple text response payload for Chat.
 */
-function createResponse({ text }: { text: string; event?: ChatEvent }): Record<string, unknown> {
+function createResponse({ text }: { text: string; event?: ChatEvent }): ChatResponse {
   return { text };
 }
 
@@ -128,9 +71,15 @@ function createResponse({ text }: { text: string; event?: ChatEvent }): Record<s
 * to generate a helpful and concise reply, and returns the response in the
 * format expected by Google Chat.
 */
-async function onMessage(event: ChatEvent): Promise<Record<string, unknown> | null> {
-  // Ignore slash-command events entirely.
+async function onMessage(event: ChatEvent): Promise<ChatResponse | null> {
   if (event?.message?.slashCommand) {
+    // The manifest routes commandId 1 ("Ask a question") to onMessage – hand
+    // it over to the command registry like any other slash command.
+    if (findCommand(getEventCommandId(event)) === askCommand) {
+      return onSlashCommand(event);
+    }
+
+    // Ignore all other slash-command events.
     // Returning `null` tells the caller that no response should be sent back to
     // Google Chat. An empty `text` payload would still create a visible blank
     // message in the UI, whereas `null` cleanly suppresses any reply.
@@ -149,92 +98,35 @@ async function onMessage(event: ChatEvent): Promise<Record<string, unknown> | nu
   // ENABLE_AI feature flag
   // ---------------------------------------------------------------------------
 
-  const AI_ENABLED: boolean = IS_NODE && process.env?.ENABLE_AI === 'true';
+  const AI_ENABLED: boolean = isAiEnabled();
 
   /* istanbul ignore next – AI path is opt-in via ENABLE_AI flag and excluded from default coverage */
   if (AI_ENABLED) {
+    const produceAnswer = async (placeholderName?: string): Promise<ChatResponse> => {
+      // Shared pipeline: thread fetch → context window → prompt → LLM.
+      const aiReply = await answerQuestion({ threadName, excludeMessageNames: placeholderName ? [placeholderName] : [] });
+      return buildAnswerMessage(aiReply, { threadName });
+    };
+
+    // Streaming mode – post a placeholder and edit it as tokens arrive.
+    const spaceName: string | undefined = event?.space?.name;
+    if (spaceName && isStreamingReplyEnabled()) {
+      return replyStreaming({
+        spaceName,
+        threadName,
+        stream: (placeholderName) => streamAnswer({ threadName, excludeMessageNames: [placeholderName] }),
+        finalise: (text) => buildAnswerMessage(text, { threadName }),
+        label: 'onMessage AI reply',
+      });
+    }
+
+    // Async mode – post a placeholder now, edit it into the answer later.
+    if (spaceName && isAsyncReplyEnabled()) {
+      return replyAsync({ spaceName, threadName, produce: produceAnswer, label: 'onMessage AI reply' });
+    }
+
     try {
-      // Dynamically import heavy deps – memoised so the import executes only
-      // once per module across the lifetime of the process.
-
-      if (!chatServiceModule) {
-        chatServiceModule = await import('../services/GoogleChatService');
-      }
-      if (!llmModule) {
-        llmModule = await import('../llm/index');
-      }
-
-      const { getThreadMessages } = chatServiceModule;
-      const { generateText } = llmModule;
-
-      // -------------------------------------------------------------------
-      // VEN-45 – Build context window that fits within ~4k token budget.
-      // -------------------------------------------------------------------
-
-      // Dynamically import the lightweight utility (no heavy deps).
-      const { buildContextWindow } = await import('../llm/contextWindow');
-
-      // Fetch the **full** thread so the contextWindow util can pick the best
-      // subset according to the first+latest10+budget heuristic.
-      // We omit the optional `limit` argument so the service falls back to its
-      // internal paging logic which fetches all pages in chunks of 100 – thus
-      // avoiding any chance of the literal string "Infinity" leaking into the
-      // upstream HTTP query.
-      const fullThread = await getThreadMessages(threadName);
-
-      // Token budgeting --------------------------------------------------
-
-      // Our default OpenAI model (e.g., `gpt-4o-mini`) can accommodate **much** larger
-      // prompts (≈128 000-token context window at the time of writing). For the
-      // sake of latency, cost control, and backward-compatibility with smaller
-      // models we *intentionally* cap the effective context to **4 096 tokens**.
-      //
-      // We then reserve a fixed slice (≈512 tokens) for:
-      //   • the system instruction
-      //   • the assistant’s forthcoming answer
-      //   • miscellaneous overhead (role labels, JSON wrapper, stop-tokens …)
-      //
-      // The remaining ~3 584 tokens are available for *conversation history*.
-
-      const MODEL_CONTEXT_LIMIT = 4096;
-      const RESERVED_FOR_SYSTEM_AND_REPLY = 512;
-
-      // Speaker prefixes ("User:", "Assistant:") plus the trailing newline that
-      // joins lines into the final prompt each consume a handful of tokens.
-      // To avoid accidental spill-over we subtract a *per-message* safety margin.
-      // A conservative 4-token allowance per line is plenty ("Assistant:" → 2
-      // tokens, "\n" → 1, plus 1 spare).
-      const PER_MESSAGE_MARGIN = 4;
-
-      // First pass – build a context window ignoring the per-line overhead so we
-      // can count how many messages *might* fit.
-      const initialBudget = MODEL_CONTEXT_LIMIT - RESERVED_FOR_SYSTEM_AND_REPLY;
-      let selected = buildContextWindow(fullThread, initialBudget);
-
-      // Second pass – shrink the budget by the margin now that we know the
-      // message count. Re-run the window builder so the utility can trim further
-      // if needed.
-      const marginBudget = PER_MESSAGE_MARGIN * selected.length;
-      const adjustedBudget = initialBudget - marginBudget;
-
-      if (adjustedBudget < initialBudget) {
-        selected = buildContextWindow(fullThread, Math.max(adjustedBudget, 0));
-      }
-
-      const SYSTEM_INST = 'You are a helpful and concise AI assistant.';
-
-      const lines: string[] = [];
-      for (const msg of selected) {
-        if (!msg.text) continue;
-        const speaker = msg.isAiBot ? 'Assistant' : msg.sender?.displayName || 'User';
-        lines.push(`${speaker}: ${msg.text}`);
-      }
-
-      const prompt = `${SYSTEM_INST}\n\n${lines.join('\n')}\nAssistant:`;
-
-      const aiReply = await generateText(prompt);
-
-      return createResponse({ text: aiReply });
+      return await produceAnswer();
     } catch (err) {
       logError('onMessage AI reply error', { err });
       return createResponse({ text: 'Sorry - I encountered an error while replying.' });
@@ -251,123 +143,51 @@ async function onMessage(event: ChatEvent): Promise<Record<string, unknown> | nu
 
 /**
 * Handle slash-command events from Google Chat.
+*
+* Commands are resolved through the declarative registry in
+* `controllers/commandRegistry.ts`; see `controllers/commands.ts` for the
+* built-in definitions.
 */
-async function onSlashCommand(event: ChatEvent): Promise<Record<string, unknown>> {
-  // `commandId` is a numeric literal (per manifest) but we allow string literals
-  // for legacy internal commands such as "ping".
-  const commandId = event?.message?.slashCommand?.commandId as number | string;
-
-  switch (commandId) {
-    // ---------------------------------------------------------------------
-    // VEN-25 – /capture-knowledge
-    // ---------------------------------------------------------------------
-    case 2: {
-      try {
-        const spaceName: string | undefined = event?.space?.name;
-        const threadName: string | undefined = event?.message?.thread?.name;
-
-        if (!spaceName) {
-          throw new Error('Missing space identifier in event.');
-        }
-        if (!threadName) {
-          throw new Error(
-            'Missing thread identifier – run /capture-knowledge inside a threaded conversation.'
-          );
-        }
+async function onSlashCommand(event: ChatEvent): Promise<ChatResponse> {
+  const response = await runCommand(event);
+  if (response) return response;
+
+  // Unknown command.
+  return createResponse({
+    text: `Unknown command "${getEventCommandId(event)}".`,
+  });
+}
 
-        const spaceId = spaceName.split('/').pop() || spaceName;
-        const threadId = threadName.split('/').pop() || threadName;
-
-        // Only perform the heavy thread fetch + Sheets write when running
-        // inside a real Node.js environment.  Google Apps Script lacks support
-        // for dynamic `import()` so the logic below must *never* execute under
-        // GAS.
-
-        if (IS_NODE) {
-          // --------------------------------------------
-          // Dynamic imports (Chat service + processors)
-          // --------------------------------------------
-
-          // Google Chat REST client (memoised across requests)
-          if (!chatServiceModule) {
-            chatServiceModule = await import('../services/GoogleChatService');
-          }
-
-          // Lightweight helpers (no external deps)
-          // eslint-disable-next-line @typescript-eslint/consistent-type-imports
-          const { parseThreadMessages, serialiseThreadKnowledgeMarkdown } =
-            await import('../pipeline/ThreadDataProcessor');
-
-          const { getThreadMessages } = chatServiceModule;
-
-          // Fetch the **full** thread (auto-paged beyond 100-message API cap).
-          const fullThread = await getThreadMessages(threadName);
-
-          // Transform Chat API messages into minimal shape expected by
-          // `parseThreadMessages()`.
-          const rawMessages = fullThread.map((m: any) => ({
-            messageId: m.name,
-            authorId: m.sender?.displayName || m.sender?.name || 'unknown',
-            content: m.text ?? '',
-            timestamp: m.createTime ?? new Date().toISOString(),
-            isBot: m.isAiBot ?? false,
-          }));
-
-          const structured = parseThreadMessages(rawMessages);
-          const markdown = serialiseThreadKnowledgeMarkdown(structured);
-
-          // --------------------------
-          // Write row to Google Sheets
-          // --------------------------
-
-          // Ensure Sheets helpers are loaded *after* we have serialised the
-          // content (serialisation is dependency-free and faster).
-          await ensureSheetsIntegration();
-
-          if (formatCapturedKnowledge && appendRows) {
-            try {
-              const knowledgeRow = formatCapturedKnowledge({
-                timestamp: new Date().toISOString(),
-                source: `${spaceId}/${threadId}`,
-                content: markdown,
-                tags: ['chat'],
-              });
-
-              // Fire-and-forget to keep Chat latency low; errors are logged but
-              // do NOT bubble up to the slash-command response.
-              void appendRows([knowledgeRow]).catch((err) =>
-                logError('Sheets append error', { err })
-              );
-            } catch (sheetErr) {
-              logError('googleSheets integration error', { err: sheetErr });
-            }
-          }
-        }
+// ---------------------------------------------------------------------------
+// Space lifecycle & interactive card handlers
+// ---------------------------------------------------------------------------
 
-        return createResponse({
-          text: `Got it – captured context for thread ${threadId} in space ${spaceId}.`,
-        });
-      } catch (err: any) {
-        logError('/capture-knowledge error', { err }); // Structured log
-        return createResponse({
-          text:
-            'Sorry – I couldn’t capture the conversation context. ' +
-            (err?.message || 'Unexpected error.'),
-        });
-      }
-    }
+/**
+* ADDED_TO_SPACE – greet the space and remember installation metadata.
+*/
+async function onAddToSpace(event: ChatEvent): Promise<ChatResponse> {
+  return handleAddedToSpace(event);
+}
+
+/**
+* REMOVED_FROM_SPACE – drop per-space state. Chat discards the response.
+*/
+async function onRemoveFromSpace(event: ChatEvent): Promise<ChatResponse> {
+  return handleRemovedFromSpace(event);
+}
 
-    // ------------------------------------------------------------------
-    // Example placeholder command – responds with pong.
-    // ------------------------------------------------------------------
-    case 'ping':
-      return createResponse({ text: 'pong' });
+/**
+* CARD_CLICKED – dispatch button presses to the registered card action.
+*/
+async function onCardClick(event: ChatEvent): Promise<ChatResponse> {
+  try {
+    const response = await runCardAction(event);
+    if (response) return response;
 
-    default:
-      // Unknown command.
-      return createResponse({
-        text: `Unknown command "${commandId}".`,
-      });
+    return createResponse({ text: `Unknown action "${getActionName(event) ?? ''}".` });
+  } catch (err) {
+    logError('onCardClick error', { err, action: getActionName(event) });
+    return createResponse({ text: 'Sorry - that action failed.' });
   }
 }
 
@@ -392,11 +212,23 @@ async function doPost(
 
     const event: ChatEvent = JSON.parse(raw);
 
-    let response: Record<string, unknown> | null = null;
-    if (event?.message?.slashCommand) {
-      response = await onSlashCommand(event);
-    } else if (event?.type === 'MESSAGE') {
-      response = await onMessage(event);
+    let response: ChatResponse | null = null;
+    switch (event?.type) {
+      case 'ADDED_TO_SPACE':
+        response = await onAddToSpace(event);
+        break;
+      case 'REMOVED_FROM_SPACE':
+        response = await onRemoveFromSpace(event);
+        break;
+      case 'CARD_CLICKED':
+        response = await onCardClick(event);
+        break;
+      default:
+        if (getEventCommandId(event) !== undefined) {
+          response = await onSlashCommand(event);
+        } else if (event?.type === 'MESSAGE') {
+          response = await onMessage(event);
+        }
     }
 
     return ContentService.createTextOutput(
@@ -416,6 +248,16 @@ async function doPost(
 
 (globalThis as any).onMessage = onMessage;
 (globalThis as any).onSlashCommand = onSlashCommand;
+(globalThis as any).onAddToSpace = onAddToSpace;
+(globalThis as any).onRemoveFromSpace = onRemoveFromSpace;
+(globalThis as any).onCardClick = onCardClick;
 (globalThis as any).doPost = doPost;
 
-export { onMessage, onSlashCommand, doPost };
+export {
+  onMessage,
+  onSlashCommand,
+  onAddToSpace,
+  onRemoveFromSpace,
+  onCardClick,
+  doPost,
+};
@@ -2,16 +2,26 @@
 * GoogleChatService.ts
 *
 * Wrapper utilities for interacting with the Google Chat REST API.
-* Implements getThreadMessages() for VEN-26.
+* Implements getThreadMessages() for VEN-26, space-wide listing via
+* listSpaceMessages(), space / membership lookups (getSpace(), listSpaces(),
+* listMembers()), attachment metadata and media (getAttachment(),
+* downloadAttachment()) and the message write operations createMessage(),
+* updateMessage() and deleteMessage().
+*
+* Rate-limited (429) and transient server (5xx) responses are retried with
+* exponential backoff and jitter, honouring `Retry-After` when present – see
+* requestWithRetry().
 *
 * The function is designed to run in both:
 *   1. Apps Script runtime – uses UrlFetchApp + ScriptApp.getOAuthToken().
-*   2. Node.js (for local Jest tests) – uses global fetch and reads the access
-*      token from the environment variable GOOGLE_CHAT_ACCESS_TOKEN.
+*   2. Node.js – uses axios and a service-account / ADC token minted by
+*      GoogleCredentials.ts (or GOOGLE_CHAT_ACCESS_TOKEN verbatim).
+*
+* Both go through the shared transport in utils/http.ts.
 *
 * Returned messages are sorted in ascending chronological order (oldest first)
-* and each message has an additional `isAiBot` boolean indicating whether the
-* sender matches the configured AI-bot identity.
+* and each message has an additional `senderRole` (assistant / bot / human)
+* plus the `isAiBot` boolean indicating whether the sender is this app.
 */
 
 // ---------------------------------------------------------------------------
@@ -19,7 +29,24 @@
 // ---------------------------------------------------------------------------
 
 import { getConfig } from '../config/index';
-import { error as logError } from '../utils/logger';
+import {
+  getCachedThread,
+  invalidateThread,
+  invalidateThreadsContaining,
+  putCachedThread,
+} from '../store/threadCache';
+import { error as logError, warn as logWarn } from '../utils/logger';
+import {
+  createRetryBudget as newRetryBudget,
+  HttpMethod,
+  HttpResponse,
+  request,
+  ResponseType,
+  RetryBudget,
+} from '../utils/http';
+import { getChatAccessToken } from './GoogleCredentials';
+
+export type { RetryBudget } from '../utils/http';
 
 // NOTE: We previously disabled `@typescript-eslint/no-explicit-any` for the entire
 // file.  That blanket disable hid potentially unsafe `any` usages and could allow
@@ -43,6 +70,8 @@ export interface ChatMessage {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any;
   };
+  /** Uploaded files and Drive files attached to the message. */
+  attachment?: ChatAttachment[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
 
@@ -50,6 +79,30 @@ export interface ChatMessage {
    * True when the sender matches the configured AI-bot identity.
    */
   isAiBot: boolean;
+
+  /** Who sent the message – see classifySender(). */
+  senderRole: SenderRole;
+}
+
+/**
+* `assistant` – this app (one of the configured AI bot identities).
+* `bot`       – any other Chat app.
+* `human`     – everyone else.
+*/
+export type SenderRole = 'assistant' | 'bot' | 'human';
+
+/** Attachment metadata as returned on `message.attachment[]`. */
+export interface ChatAttachment {
+  name: string; // e.g. "spaces/AAA/messages/BBB/attachments/CCC"
+  contentName?: string;
+  contentType?: string;
+  source?: 'UPLOADED_CONTENT' | 'DRIVE_FILE' | string;
+  /** Present for uploaded content – pass `resourceName` to downloadAttachment(). */
+  attachmentDataRef?: { resourceName?: string; attachmentUploadToken?: string };
+  /** Present for Drive files. */
+  driveDataRef?: { driveFileId?: string };
+  thumbnailUri?: string;
+  downloadUri?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -60,105 +113,145 @@ export interface ChatMessage {
 * Attempt to retrieve the OAuth access token for Google Chat API requests.
 *
 * – In Apps Script we can call ScriptApp.getOAuthToken().
-* – In Node/CI the token must be supplied via the env var GOOGLE_CHAT_ACCESS_TOKEN.
+* – In Node the token is minted (and cached) from service-account / ADC
+*   credentials, or taken verbatim from GOOGLE_CHAT_ACCESS_TOKEN – see
+*   GoogleCredentials.ts.
 */
-function getAccessToken(): string {
-  // 1) Apps Script runtime – prefer the project-bound OAuth token.
-  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-  // @ts-ignore – ScriptApp only exists in GAS
-  if (
-    typeof ScriptApp !== 'undefined' &&
-    typeof ScriptApp.getOAuthToken === 'function'
-  ) {
-    // @ts-ignore
-    return ScriptApp.getOAuthToken();
-  }
-
-
-  // 2) Node / tests – expect the token via config layer (process.env passthrough)
-  const token = getConfig('GOOGLE_CHAT_ACCESS_TOKEN', { required: false });
-
-  if (!token) {
-    throw new Error('Missing required config "GOOGLE_CHAT_ACCESS_TOKEN"');
-  }
+async function getAccessToken(): Promise<string> {
+  return getChatAccessToken();
+}
 
-  return token;
+/** Accept both "users/123" and bare "123" app ids. */
+function toUserName(id: string): string {
+  return id.startsWith('users/') ? id : `users/${id}`;
 }
 
 /**
-* Determine whether a given sender object represents the AI bot.
+* Resource names that identify this app. Multiple ids cover deployments with
+* more than one Chat app (e.g. staging + production) posting the same answers.
 *
-* This checks against two optional configuration sources:
-*   – AI_BOT_USER_ID     → matches sender.name
-*   – AI_BOT_DISPLAY_NAME → matches sender.displayName
+*   – AI_BOT_USER_ID  → a single id (kept for backwards compatibility)
+*   – AI_BOT_USER_IDS → comma / whitespace separated list
+*
+* Values can be provided via Script Properties (Apps Script) or environment
+* variables (Node / CI).
+*/
+function configuredBotUserIds(): string[] {
+  const single = getConfig('AI_BOT_USER_ID', { required: false }) ?? '';
+  const list = getConfig('AI_BOT_USER_IDS', { required: false }) ?? '';
+  return `${single},${list}`
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(toUserName);
+}
+
+/**
+* Classify a message sender.
 *
-* Both values can be provided via:
-*   – Script Properties  (for production Apps Script):
-*       PropertiesService.getScriptProperties().getProperty('AI_BOT_USER_ID')
-*   – Environment variables (for local tests / CI):
-*       process.env.AI_BOT_USER_ID, process.env.AI_BOT_DISPLAY_NAME
+* Our own assistant is recognised by the configured ids or by
+* AI_BOT_DISPLAY_NAME; any other sender with `type === 'BOT'` is another app.
 */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function isAiBotSender(sender: any): boolean {
-  if (!sender) return false;
+export function classifySender(sender: any): SenderRole {
+  if (!sender) return 'human';
 
-  const botUserId = getConfig('AI_BOT_USER_ID', { required: false });
   const botDisplayName = getConfig('AI_BOT_DISPLAY_NAME', { required: false });
+  const ownIds = configuredBotUserIds();
 
-  return (
-    (!!botUserId && sender.name === botUserId) ||
+  if (
+    (!!sender.name && ownIds.includes(sender.name)) ||
     (!!botDisplayName && sender.displayName === botDisplayName)
-  );
+  ) {
+    return 'assistant';
+  }
+
+  return sender.type === 'BOT' ? 'bot' : 'human';
+}
+
+/** Attach `senderRole` / `isAiBot` to a raw API message. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function withSenderRole(msg: any): ChatMessage {
+  const senderRole = classifySender(msg?.sender);
+  return { ...msg, senderRole, isAiBot: senderRole === 'assistant' } as ChatMessage;
 }
 
 // ---------------------------------------------------------------------------
-// HTTP helper – abstracts UrlFetchApp vs fetch()
+// HTTP helper – Chat retry policy on top of the shared transport
 // ---------------------------------------------------------------------------
 
-interface HttpResponse<T = unknown> {
-  status: number;
-  data: T;
+function configNumber(key: string, fallback: number): number {
+  const raw = getConfig(key, { required: false });
+  const parsed = raw !== undefined && raw !== '' ? Number(raw) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
 }
 
-async function httpGet<T = unknown>(url: string, headers: Record<string, string>): Promise<HttpResponse<T>> {
-  // Apps Script branch – synchronous UrlFetchApp
-  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-  // @ts-ignore – UrlFetchApp only in GAS
-  if (typeof UrlFetchApp !== 'undefined') {
-    try {
-      // @ts-ignore – UrlFetchApp typings only in GAS
-      const response = UrlFetchApp.fetch(url, {
-        method: 'get',
-        headers,
-        muteHttpExceptions: true,
-      });
-
-      const status = response.getResponseCode();
-      const text = response.getContentText();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let parsed: any = undefined;
-      try {
-        parsed = JSON.parse(text);
-      } catch (jsonErr) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        parsed = text as any;
-      }
+/** New retry budget sized from `CHAT_API_MAX_RETRY_MS` (default 30 s). */
+export function createRetryBudget(): RetryBudget {
+  return newRetryBudget(configNumber('CHAT_API_MAX_RETRY_MS', 30_000));
+}
 
-      return { status, data: parsed } as HttpResponse<T>;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (err: any) {
-      throw err;
-    }
-  }
+/**
+* Send a Chat API request, retrying 429/5xx responses.
+*
+* Each attempt is aborted after `CHAT_API_TIMEOUT_MS` (default 10 s, `0`
+* disables it) so a hung endpoint cannot stall a handler or background reply.
+* Delays grow exponentially from `CHAT_API_RETRY_BASE_MS` (default 1 s) with
+* full jitter, unless the server supplies `Retry-After`. Gives up – returning
+* the last response for assertOk() to report – after `CHAT_API_MAX_RETRIES`
+* retries (default 5) or once the next delay would overrun the budget.
+*/
+async function requestWithRetry<T = unknown>(
+  method: HttpMethod,
+  url: string,
+  headers: Record<string, string>,
+  body?: unknown,
+  budget: RetryBudget = createRetryBudget(),
+  responseType: ResponseType = 'json',
+): Promise<HttpResponse<T>> {
+  return request<T>({
+    method,
+    url,
+    headers,
+    json: body,
+    responseType,
+    timeoutMs: configNumber('CHAT_API_TIMEOUT_MS', 10_000),
+    retry: {
+      maxRetries: configNumber('CHAT_API_MAX_RETRIES', 5),
+      baseDelayMs: configNumber('CHAT_API_RETRY_BASE_MS', 1000),
+      budget,
+      onBudgetExhausted: ({ status, attempts, delayMs }) =>
+        logWarn('Google Chat API retry budget exhausted', {
+          method,
+          status,
+          attempts,
+          delayMs,
+          remainingMs: budget.remainingMs,
+        }),
+    },
+  });
+}
 
-  // Node.js / fetch branch
-  // Use axios in Node.js for compatibility with nock (easier to mock).
-  // Dynamically require to avoid bundling axios into GAS output unnecessarily.
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const axios = require('axios');
+/** Standard headers for authenticated Chat API calls. */
+async function authHeaders(): Promise<Record<string, string>> {
+  return {
+    Authorization: `Bearer ${await getAccessToken()}`,
+    Accept: 'application/json',
+  };
+}
 
-  const res = await axios.get(url, { headers, validateStatus: () => true });
-  return { status: res.status, data: res.data } as HttpResponse<T>;
+/**
+* Throw a descriptive error (after logging the payload) for non-2xx Chat API
+* responses.
+*/
+function assertOk(status: number, data: unknown, operation: string): void {
+  if (status >= 400) {
+    logError('Google Chat API error', {
+      operation,
+      status,
+      payload: data,
+    });
+    throw new Error(`Google Chat API returned HTTP ${status}`);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -182,6 +275,16 @@ async function httpGet<T = unknown>(url: string, headers: Record<string, string>
 * When `limit` is omitted the behaviour is unchanged – the full thread is fetched
 * in ascending order just like the original implementation.
 *
+* Results are cached per thread (see store/threadCache.ts). Later calls only
+* request messages created after a point just before the newest cached one –
+* the filter supports `>` but not `>=` – and de-duplicate the overlap by name,
+* so messages sharing that timestamp are not missed.
+* Only the bot's own `updateMessage()` / `deleteMessage()` calls invalidate a
+* cached thread; edits and deletes made by people are served stale until
+* THREAD_CACHE_TTL_SECONDS expires. Under Apps Script the cache cannot be
+* searched by message, so the bot's own deletes – and edits whose response
+* lacks `thread.name` – are not seen either.
+*
 * @param threadResourceName Full resource name – e.g. "spaces/AAA/threads/BBB".
 * @param limit Optional maximum number of messages to return (latest ⟶ oldest).
 *              Pass `Infinity` or omit for no limit.
@@ -191,16 +294,331 @@ export async function getThreadMessages(
   threadResourceName: string,
   limit: number = Infinity
 ): Promise<ChatMessage[]> {
-  const accessToken = getAccessToken();
   // Do not URI-encode the threadResourceName wholesale – Google APIs expect the
   // literal path (e.g. "spaces/AAA/threads/BBB"). Individual path segments are
   // already URL-safe. Encoding the `/` characters would break the endpoint.
   const baseUrl = `https://chat.googleapis.com/v1/${threadResourceName}/messages`;
 
-  const headers = {
-    Authorization: `Bearer ${accessToken}`,
-    Accept: 'application/json',
-  } as Record<string, string>;
+  // Incremental path – only ask for messages newer than the cached ones.
+  const cached = getCachedThread<ChatMessage>(threadResourceName);
+  if (cached) {
+    const newer = await fetchMessagePages(
+      baseUrl,
+      cached.latestCreateTime ? { filter: `createTime > "${justBefore(cached.latestCreateTime)}"` } : {},
+      Infinity,
+      'getThreadMessages',
+    );
+
+    // Key by name so a message returned again replaces its cached copy.
+    const byName = new Map<string, ChatMessage>();
+    [...cached.messages, ...newer].forEach((msg) => byName.set(msg.name, msg));
+    const merged = sortChronologically(Array.from(byName.values()));
+
+    cacheThread(threadResourceName, merged);
+    return Number.isFinite(limit) && limit > 0 ? merged.slice(-Math.trunc(limit)) : merged;
+  }
+
+  const messages = await fetchMessagePages(baseUrl, {}, limit, 'getThreadMessages');
+
+  // A limited fetch only holds the newest messages – caching it would make
+  // later unlimited reads miss the start of the thread.
+  if (!(Number.isFinite(limit) && limit > 0)) {
+    cacheThread(threadResourceName, messages);
+  }
+  return messages;
+}
+
+/** One millisecond before `timestamp`, so a `>` filter still includes it. */
+function justBefore(timestamp: string): string {
+  return new Date(new Date(timestamp).getTime() - 1).toISOString();
+}
+
+function cacheThread(threadName: string, messages: ChatMessage[]): void {
+  putCachedThread(threadName, {
+    messages,
+    latestCreateTime: messages.length ? messages[messages.length - 1].createTime : undefined,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// listSpaceMessages implementation
+// ---------------------------------------------------------------------------
+
+export interface ListSpaceMessagesOptions {
+  /** Only messages created strictly after this instant. */
+  since?: Date | string;
+  /** Only messages created strictly before this instant. */
+  until?: Date | string;
+  /** Restrict to a single thread – e.g. "spaces/AAA/threads/BBB". */
+  threadName?: string;
+  /**
+  * Extra Chat API filter expression, AND-ed with the clauses generated from
+  * the options above.
+  */
+  filter?: string;
+  /** Maximum number of (most recent) messages across the whole space. */
+  limit?: number;
+}
+
+export interface SpaceThreadMessages {
+  /** Thread resource name, or "" for messages without a thread. */
+  threadName: string;
+  /** Messages in the thread sorted oldest → newest. */
+  messages: ChatMessage[];
+}
+
+function toRfc3339(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp "${String(value)}"`);
+  }
+  return date.toISOString();
+}
+
+/**
+* Build the Chat API `filter` expression for listSpaceMessages(). Exposed for
+* tests and for callers that page through messages themselves.
+*/
+export function buildMessageFilter(opts: ListSpaceMessagesOptions = {}): string {
+  const clauses: string[] = [];
+  if (opts.since !== undefined) clauses.push(`createTime > "${toRfc3339(opts.since)}"`);
+  if (opts.until !== undefined) clauses.push(`createTime < "${toRfc3339(opts.until)}"`);
+  if (opts.threadName) clauses.push(`thread.name = ${opts.threadName}`);
+  if (opts.filter?.trim()) clauses.push(opts.filter.trim());
+  return clauses.join(' AND ');
+}
+
+/**
+* List messages across a whole space, optionally restricted to a time window
+* or thread, grouped by thread.
+*
+* @param spaceName Space resource name – e.g. "spaces/AAA".
+* @returns Threads ordered by their earliest returned message, each with its
+*          messages sorted oldest → newest.
+*/
+export async function listSpaceMessages(
+  spaceName: string,
+  opts: ListSpaceMessagesOptions = {},
+): Promise<SpaceThreadMessages[]> {
+  const baseUrl = `https://chat.googleapis.com/v1/${spaceName}/messages`;
+  const filter = buildMessageFilter(opts);
+
+  const messages = await fetchMessagePages(
+    baseUrl,
+    filter ? { filter } : {},
+    opts.limit ?? Infinity,
+    'listSpaceMessages',
+  );
+
+  // `messages` is already sorted chronologically, so insertion order of the
+  // Map gives threads ordered by their first message.
+  const byThread = new Map<string, ChatMessage[]>();
+  messages.forEach((msg) => {
+    const threadName: string = msg.thread?.name ?? '';
+    const bucket = byThread.get(threadName);
+    if (bucket) bucket.push(msg);
+    else byThread.set(threadName, [msg]);
+  });
+
+  return Array.from(byThread, ([threadName, threadMessages]) => ({
+    threadName,
+    messages: threadMessages,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Spaces and memberships
+// ---------------------------------------------------------------------------
+
+export interface ChatSpace {
+  name: string; // e.g. "spaces/AAA"
+  displayName?: string;
+  spaceType?: 'SPACE' | 'GROUP_CHAT' | 'DIRECT_MESSAGE' | string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+export interface ChatMembership {
+  name: string; // e.g. "spaces/AAA/members/123"
+  state?: string;
+  role?: string;
+  member?: {
+    name?: string; // e.g. "users/123"
+    displayName?: string;
+    type?: 'HUMAN' | 'BOT' | string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    [key: string]: any;
+  };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+/**
+* Fetch a single space.
+*
+* @param spaceName Space resource name – e.g. "spaces/AAA".
+*/
+export async function getSpace(spaceName: string): Promise<ChatSpace> {
+  const url = `https://chat.googleapis.com/v1/${spaceName}`;
+
+  const { status, data } = await requestWithRetry<ChatSpace>('get', url, await authHeaders());
+  assertOk(status, data, 'getSpace');
+
+  return data;
+}
+
+/**
+* List the spaces the caller is a member of.
+*
+* @param opts.filter Chat API filter – e.g. `spaceType = "SPACE"`.
+*/
+export async function listSpaces(opts: { filter?: string } = {}): Promise<ChatSpace[]> {
+  return fetchAllPages<ChatSpace>(
+    'https://chat.googleapis.com/v1/spaces',
+    'spaces',
+    opts.filter ? { filter: opts.filter } : {},
+    'listSpaces',
+  );
+}
+
+/**
+* List the memberships of a space.
+*
+* The Chat API only returns `users/{id}` plus a display name for each member;
+* email addresses require a separate People / Admin Directory lookup.
+*
+* @param spaceName Space resource name – e.g. "spaces/AAA".
+* @param opts.filter Chat API filter – e.g. `member.type = "HUMAN"`.
+*/
+export async function listMembers(
+  spaceName: string,
+  opts: { filter?: string } = {},
+): Promise<ChatMembership[]> {
+  return fetchAllPages<ChatMembership>(
+    `https://chat.googleapis.com/v1/${spaceName}/members`,
+    'memberships',
+    opts.filter ? { filter: opts.filter } : {},
+    'listMembers',
+  );
+}
+
+/**
+* Follow `nextPageToken` until exhausted, collecting `data[itemsKey]` from each
+* page. Shares one retry budget across pages like fetchMessagePages().
+*/
+async function fetchAllPages<T>(
+  baseUrl: string,
+  itemsKey: string,
+  params: Record<string, string>,
+  operation: string,
+): Promise<T[]> {
+  const headers = await authHeaders();
+  const retryBudget = createRetryBudget();
+  const items: T[] = [];
+
+  let pageToken: string | undefined = undefined;
+  do {
+    const url = new URL(baseUrl);
+    url.searchParams.set('pageSize', '100');
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    if (pageToken) url.searchParams.set('pageToken', pageToken);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { status, data } = await requestWithRetry<any>('get', url.toString(), headers, undefined, retryBudget);
+    assertOk(status, data, operation);
+
+    items.push(...((data?.[itemsKey] ?? []) as T[]));
+    pageToken = data?.nextPageToken;
+  } while (pageToken);
+
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Attachments
+// ---------------------------------------------------------------------------
+
+/**
+* Fetch attachment metadata.
+*
+* @param attachmentName Attachment resource name – e.g.
+*                       "spaces/AAA/messages/BBB/attachments/CCC".
+*/
+export async function getAttachment(attachmentName: string): Promise<ChatAttachment> {
+  const url = `https://chat.googleapis.com/v1/${attachmentName}`;
+
+  const { status, data } = await requestWithRetry<ChatAttachment>('get', url, await authHeaders());
+  assertOk(status, data, 'getAttachment');
+
+  return data;
+}
+
+export interface AttachmentMedia {
+  bytes: Uint8Array;
+  contentType?: string;
+}
+
+/**
+* Download the media of an uploaded attachment.
+*
+* Drive attachments have no Chat media – fetch those through the Drive API
+* using `driveDataRef.driveFileId` instead.
+*
+* @param resourceName `attachment.attachmentDataRef.resourceName`.
+*/
+export async function downloadAttachment(resourceName: string): Promise<AttachmentMedia> {
+  const url = new URL(`https://chat.googleapis.com/v1/media/${resourceName}`);
+  url.searchParams.set('alt', 'media');
+
+  const { status, data, headers } = await requestWithRetry<Uint8Array>(
+    'get',
+    url.toString(),
+    { Authorization: `Bearer ${await getAccessToken()}` },
+    undefined,
+    createRetryBudget(),
+    'binary',
+  );
+  assertOk(status, status >= 400 ? `${data.byteLength} bytes` : data, 'downloadAttachment');
+
+  return { bytes: data, contentType: headers['content-type'] };
+}
+
+// ---------------------------------------------------------------------------
+// Shared message pagination
+// ---------------------------------------------------------------------------
+
+// Helper to safely convert an ISO/RFC3339 timestamp string to milliseconds.
+// Returns 0 when the input is missing or unparsable so the comparator always
+// yields a finite number (Array.sort comparator must not return NaN).
+function toMillis(iso?: string): number {
+  const parsed = iso ? Date.parse(iso) : NaN;
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+* Sort in place chronologically (oldest → newest). Using `toMillis` guarantees
+* the comparator never returns `NaN`, which could otherwise throw a runtime
+* error or lead to inconsistent ordering in V8.
+*/
+function sortChronologically(messages: ChatMessage[]): ChatMessage[] {
+  return messages.sort((a, b) => toMillis(a.createTime) - toMillis(b.createTime));
+}
+
+/**
+* Page through a Chat `messages.list` style endpoint.
+*
+* When `limit` is finite the pages are requested newest-first (`orderBy=DESC`)
+* and sized to the limit so the common case needs a single round-trip.
+*
+* @returns Messages flagged with `isAiBot`, sorted oldest → newest.
+*/
+async function fetchMessagePages(
+  baseUrl: string,
+  params: Record<string, string>,
+  limit: number,
+  operation: string,
+): Promise<ChatMessage[]> {
+  const headers = await authHeaders();
 
   const allMessages: ChatMessage[] = [];
 
@@ -223,10 +641,15 @@ export async function getThreadMessages(
 
   let pageToken: string | undefined = undefined;
 
+  // One budget for the whole fetch; each page is retried on its own so pages
+  // collected so far are kept rather than refetched.
+  const retryBudget = createRetryBudget();
+
   try {
     do {
       const url = new URL(baseUrl);
       url.searchParams.set('pageSize', String(pageSize));
+      Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
       // Use descending order when limiting so the newest messages arrive first.
       if (hasLimit) {
         url.searchParams.set('orderBy', 'DESC');
@@ -234,28 +657,21 @@ export async function getThreadMessages(
       if (pageToken) url.searchParams.set('pageToken', pageToken);
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { status, data } = await httpGet<{ messages?: any[]; nextPageToken?: string }>(
+      const { status, data } = await requestWithRetry<{ messages?: any[]; nextPageToken?: string }>(
+        'get',
         url.toString(),
-        headers
+        headers,
+        undefined,
+        retryBudget,
       );
 
-      if (status >= 400) {
-        logError('Google Chat API error', {
-          status,
-          payload: data,
-        });
-        throw new Error(`Google Chat API returned HTTP ${status}`);
-      }
+      assertOk(status, data, operation);
 
       const messages = data?.messages ?? [];
-      // Augment with isAiBot flag
+      // Augment with senderRole / isAiBot
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       messages.forEach((msg: any) => {
-        const fullMsg: ChatMessage = {
-          ...msg,
-          isAiBot: isAiBotSender(msg?.sender),
-        } as ChatMessage;
-        allMessages.push(fullMsg);
+        allMessages.push(withSenderRole(msg));
       });
 
       // Stop early if we have collected enough recent messages.
@@ -281,18 +697,7 @@ export async function getThreadMessages(
     throw err; // re-throw so caller knows it failed
   }
 
-  // Helper to safely convert an ISO/RFC3339 timestamp string to milliseconds.
-  // Returns 0 when the input is missing or unparsable so the comparator always
-  // yields a finite number (Array.sort comparator must not return NaN).
-  const toMillis = (iso?: string): number => {
-    const parsed = iso ? Date.parse(iso) : NaN;
-    return Number.isFinite(parsed) ? parsed : 0;
-  };
-
-  // Sort chronologically (oldest → newest). Using `toMillis` guarantees the
-  // comparator never returns `NaN`, which could otherwise throw a runtime
-  // error or lead to inconsistent ordering in V8.
-  allMessages.sort((a, b) => toMillis(a.createTime) - toMillis(b.createTime));
+  sortChronologically(allMessages);
 
   if (hasLimit) {
     // Return the last `safeLimit` items (oldest → newest) – slicing guards against
@@ -302,3 +707,103 @@ export async function getThreadMessages(
 
   return allMessages;
 }
+
+// ---------------------------------------------------------------------------
+// Message write operations
+// ---------------------------------------------------------------------------
+
+export type MessageReplyOption =
+  | 'MESSAGE_REPLY_OPTION_UNSPECIFIED'
+  | 'REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD'
+  | 'REPLY_MESSAGE_OR_FAIL';
+
+export interface CreateMessageInput {
+  text?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cardsV2?: any[];
+  fallbackText?: string;
+  /** Thread to post into – either an existing thread name or a thread key. */
+  thread?: { name?: string; threadKey?: string };
+  /** How to handle replies when `thread` is provided. */
+  messageReplyOption?: MessageReplyOption;
+}
+
+/**
+* Post a new message into a space (optionally as a reply in a thread).
+*
+* @param spaceName Space resource name – e.g. "spaces/AAA".
+* @returns The created message, flagged with `isAiBot`.
+*/
+export async function createMessage(
+  spaceName: string,
+  message: CreateMessageInput,
+): Promise<ChatMessage> {
+  const { messageReplyOption, ...body } = message;
+
+  const url = new URL(`https://chat.googleapis.com/v1/${spaceName}/messages`);
+  if (messageReplyOption) {
+    url.searchParams.set('messageReplyOption', messageReplyOption);
+  } else if (message.thread) {
+    // Without an explicit option Chat ignores `thread` and starts a new one.
+    url.searchParams.set('messageReplyOption', 'REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD');
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { status, data } = await requestWithRetry<any>('post', url.toString(), await authHeaders(), body);
+  assertOk(status, data, 'createMessage');
+
+  return withSenderRole(data);
+}
+
+export type MessagePatch = Pick<CreateMessageInput, 'text' | 'cardsV2' | 'fallbackText'>;
+
+/**
+* Update an existing message (only messages created by the calling app can be
+* edited).
+*
+* @param messageName Message resource name – e.g. "spaces/AAA/messages/BBB".
+* @param patch       Fields to overwrite.
+* @param updateMask  Field paths to update. Defaults to the keys of `patch`.
+* @param threadName  Thread the message belongs to, when the caller knows it.
+*                    Used for cache invalidation if the response omits it, which
+*                    spares a scan of every cached thread.
+* @returns The updated message, flagged with `isAiBot`.
+*/
+export async function updateMessage(
+  messageName: string,
+  patch: MessagePatch,
+  updateMask: string | string[] = Object.keys(patch),
+  threadName?: string,
+): Promise<ChatMessage> {
+  const mask = Array.isArray(updateMask) ? updateMask.join(',') : updateMask;
+  if (!mask) {
+    throw new Error('updateMessage requires a non-empty updateMask');
+  }
+
+  const url = new URL(`https://chat.googleapis.com/v1/${messageName}`);
+  url.searchParams.set('updateMask', mask);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { status, data } = await requestWithRetry<any>('patch', url.toString(), await authHeaders(), patch);
+  assertOk(status, data, 'updateMessage');
+
+  // Edits are invisible to the incremental fetch – drop the cached thread.
+  const editedThread = data?.thread?.name ?? threadName;
+  if (editedThread) invalidateThread(editedThread);
+  else invalidateThreadsContaining(messageName);
+
+  return withSenderRole(data);
+}
+
+/**
+* Delete a message.
+*
+* @param messageName Message resource name – e.g. "spaces/AAA/messages/BBB".
+*/
+export async function deleteMessage(messageName: string): Promise<void> {
+  const url = `https://chat.googleapis.com/v1/${messageName}`;
+
+  const { status, data } = await requestWithRetry('delete', url, await authHeaders());
+  assertOk(status, data, 'deleteMessage');
+  invalidateThreadsContaining(messageName);
+}
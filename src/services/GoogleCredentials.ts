@@ -0,0 +1,245 @@
+/**
+* GoogleCredentials.ts
+*
+* OAuth access-token provider for the Google Chat REST API.
+*
+* Resolution order:
+*   1. Apps Script – ScriptApp.getOAuthToken() (project-bound token).
+*   2. GOOGLE_CHAT_ACCESS_TOKEN – a pre-minted token (tests / short scripts).
+*   3. GOOGLE_SERVICE_ACCOUNT_KEY – inline service-account key JSON, exchanged
+*      via the JWT bearer flow.
+*   4. GOOGLE_APPLICATION_CREDENTIALS – Application Default Credentials file,
+*      either a service-account key or an `authorized_user` refresh token.
+*   5. The GCE / Cloud Run metadata server when running on Google Cloud.
+*
+* Minted tokens are cached in memory and refreshed shortly before they expire,
+* so long-running Node deployments never send a stale token. Concurrent
+* callers share a single in-flight refresh.
+*
+* The token endpoint defaults to Google's but can be overridden with
+* GOOGLE_OAUTH_TOKEN_URL (e.g. to point tests at a local stand-in).
+*/
+
+import { getConfig } from '../config/index';
+import { request } from '../utils/http';
+import { error as logError } from '../utils/logger';
+
+// ---------------------------------------------------------------------------
+// Constants & types
+// ---------------------------------------------------------------------------
+
+/** Scope used when the app calls the Chat API as itself. */
+export const CHAT_BOT_SCOPE = 'https://www.googleapis.com/auth/chat.bot';
+
+const DEFAULT_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DEFAULT_METADATA_HOST = 'metadata.google.internal';
+
+/** Refresh this long before the reported expiry. */
+const REFRESH_MARGIN_MS = 5 * 60_000;
+
+/** Lifetime requested for JWT assertions (the maximum Google accepts). */
+const ASSERTION_LIFETIME_S = 3600;
+
+interface ServiceAccountKey {
+  type: 'service_account';
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  token_uri?: string;
+}
+
+interface AuthorizedUserKey {
+  type: 'authorized_user';
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+}
+
+type CredentialKey = ServiceAccountKey | AuthorizedUserKey;
+
+interface CachedToken {
+  accessToken: string;
+  /** Epoch millis at which the token expires. */
+  expiresAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+let cached: CachedToken | null = null;
+let inflight: Promise<CachedToken> | null = null;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Return a valid access token for the Chat API, minting or refreshing one
+* when necessary.
+*
+* @throws {Error} When no credential source is configured or the token
+*                 endpoint rejects the request.
+*/
+export async function getChatAccessToken(): Promise<string> {
+  // 1) Apps Script runtime – prefer the project-bound OAuth token.
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-ignore – ScriptApp only exists in GAS
+  if (typeof ScriptApp !== 'undefined' && typeof ScriptApp.getOAuthToken === 'function') {
+    // @ts-ignore
+    return ScriptApp.getOAuthToken();
+  }
+
+  // 2) Pre-minted token supplied via config.
+  const staticToken = getConfig('GOOGLE_CHAT_ACCESS_TOKEN', { required: false });
+  if (staticToken) return staticToken;
+
+  // 3–5) Minted tokens, cached until shortly before expiry.
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  if (!inflight) {
+    inflight = mintToken().finally(() => {
+      inflight = null;
+    });
+  }
+  cached = await inflight;
+  return cached.accessToken;
+}
+
+/** Forget any cached token (e.g. after rotating credentials, or in tests). */
+export function clearCredentialCache(): void {
+  cached = null;
+  inflight = null;
+}
+
+// ---------------------------------------------------------------------------
+// Credential sources
+// ---------------------------------------------------------------------------
+
+async function mintToken(): Promise<CachedToken> {
+  const key = loadCredentialKey();
+
+  if (key?.type === 'service_account') return exchangeJwt(key);
+  if (key?.type === 'authorized_user') return exchangeRefreshToken(key);
+  if (onGoogleCloud()) return fetchMetadataToken();
+
+  throw new Error(
+    'No Google Chat credentials configured – set GOOGLE_CHAT_ACCESS_TOKEN, ' +
+      'GOOGLE_SERVICE_ACCOUNT_KEY or GOOGLE_APPLICATION_CREDENTIALS',
+  );
+}
+
+function loadCredentialKey(): CredentialKey | undefined {
+  const inline = getConfig('GOOGLE_SERVICE_ACCOUNT_KEY', { required: false });
+  if (inline) return parseKey(inline, 'GOOGLE_SERVICE_ACCOUNT_KEY');
+
+  const path = getConfig('GOOGLE_APPLICATION_CREDENTIALS', { required: false });
+  if (!path) return undefined;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const fs = require('fs');
+  return parseKey(fs.readFileSync(path, 'utf8'), path);
+}
+
+function parseKey(json: string, origin: string): CredentialKey {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let key: any;
+  try {
+    key = JSON.parse(json);
+  } catch {
+    throw new Error(`Credentials in ${origin} are not valid JSON`);
+  }
+
+  if (key?.type !== 'service_account' && key?.type !== 'authorized_user') {
+    throw new Error(`Unsupported credential type "${key?.type}" in ${origin}`);
+  }
+  return key as CredentialKey;
+}
+
+function onGoogleCloud(): boolean {
+  return ['GCE_METADATA_HOST', 'K_SERVICE', 'FUNCTION_TARGET', 'GAE_SERVICE'].some(
+    (name) => !!process.env[name],
+  );
+}
+
+function tokenUrl(key?: ServiceAccountKey): string {
+  return getConfig('GOOGLE_OAUTH_TOKEN_URL', { required: false }) || key?.token_uri || DEFAULT_TOKEN_URL;
+}
+
+function scopes(): string {
+  const raw = getConfig('CHAT_API_SCOPES', { required: false }) || CHAT_BOT_SCOPE;
+  return raw.split(/[\s,]+/).filter(Boolean).join(' ');
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/** Build and sign an RS256 JWT assertion for the service account. */
+export function createJwtAssertion(key: ServiceAccountKey, audience: string, nowMs: number = Date.now()): string {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const crypto = require('crypto');
+
+  const iat = Math.floor(nowMs / 1000);
+  const header = { alg: 'RS256', typ: 'JWT', ...(key.private_key_id ? { kid: key.private_key_id } : {}) };
+  const claims = {
+    iss: key.client_email,
+    scope: scopes(),
+    aud: audience,
+    iat,
+    exp: iat + ASSERTION_LIFETIME_S,
+  };
+
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(key.private_key);
+  return `${unsigned}.${base64Url(signature)}`;
+}
+
+async function exchangeJwt(key: ServiceAccountKey): Promise<CachedToken> {
+  const url = tokenUrl(key);
+  return requestToken(url, {
+    grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+    assertion: createJwtAssertion(key, url),
+  });
+}
+
+async function exchangeRefreshToken(key: AuthorizedUserKey): Promise<CachedToken> {
+  return requestToken(tokenUrl(), {
+    grant_type: 'refresh_token',
+    client_id: key.client_id,
+    client_secret: key.client_secret,
+    refresh_token: key.refresh_token,
+  });
+}
+
+async function fetchMetadataToken(): Promise<CachedToken> {
+  const host = process.env.GCE_METADATA_HOST || DEFAULT_METADATA_HOST;
+  const url = new URL(`http://${host}/computeMetadata/v1/instance/service-accounts/default/token`);
+  url.searchParams.set('scopes', scopes().replace(/ /g, ','));
+
+  const res = await request({
+    method: 'get',
+    url: url.toString(),
+    headers: { 'Metadata-Flavor': 'Google' },
+    timeoutMs: 5000,
+  });
+  return toCachedToken(res.status, res.data, 'metadata server');
+}
+
+async function requestToken(url: string, form: Record<string, string>): Promise<CachedToken> {
+  const res = await request({ method: 'post', url, form, timeoutMs: 10_000 });
+  return toCachedToken(res.status, res.data, 'token endpoint');
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toCachedToken(status: number, data: any, source: string): CachedToken {
+  if (status >= 400 || !data?.access_token) {
+    logError('Google OAuth token request failed', { source, status, error: data?.error });
+    throw new Error(`Google OAuth ${source} returned HTTP ${status}`);
+  }
+
+  const expiresIn = Number(data.expires_in) || ASSERTION_LIFETIME_S;
+  return { accessToken: data.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+}
@@ -0,0 +1,118 @@
+/**
+* spaceState.ts
+*
+* Minimal per-space key/value store used to remember installation metadata
+* and other space-scoped settings between Chat events.
+*
+* Backends:
+*   1. Apps Script – `PropertiesService.getScriptProperties()`; each space is
+*      persisted as a single JSON-encoded property (`space:<spaceName>`).
+*   2. Node.js / Jest – an in-memory `Map`, scoped to the process lifetime.
+*
+* Values are small JSON objects. Callers should treat the store as eventually
+* consistent – Script Properties writes are not transactional.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { warn as logWarn } from '../utils/logger';
+
+// Only declare a minimal slice – we do not depend on the full typings here.
+declare const PropertiesService: {
+  getScriptProperties(): {
+    getProperty(key: string): string | null;
+    setProperty(key: string, value: string): unknown;
+    deleteProperty(key: string): unknown;
+  };
+} | undefined;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SpaceState {
+  /** ISO timestamp recorded when the bot was added to the space. */
+  installedAt?: string;
+  /** Space type reported by Chat (`ROOM`, `DM`, `SPACE`, …). */
+  spaceType?: string;
+  /** Display name of the space at installation time. */
+  displayName?: string;
+  /** Resource name of the user who added the bot. */
+  installedBy?: string;
+  [key: string]: any;
+}
+
+// ---------------------------------------------------------------------------
+// Backend selection
+// ---------------------------------------------------------------------------
+
+const KEY_PREFIX = 'space:';
+
+const memoryStore = new Map<string, string>();
+
+function scriptProperties(): ReturnType<NonNullable<typeof PropertiesService>['getScriptProperties']> | null {
+  if (typeof PropertiesService === 'undefined' || !PropertiesService?.getScriptProperties) {
+    return null;
+  }
+  return PropertiesService.getScriptProperties();
+}
+
+function readRaw(key: string): string | null {
+  const props = scriptProperties();
+  return props ? props.getProperty(key) : memoryStore.get(key) ?? null;
+}
+
+function writeRaw(key: string, value: string): void {
+  const props = scriptProperties();
+  if (props) {
+    props.setProperty(key, value);
+  } else {
+    memoryStore.set(key, value);
+  }
+}
+
+function deleteRaw(key: string): void {
+  const props = scriptProperties();
+  if (props) {
+    props.deleteProperty(key);
+  } else {
+    memoryStore.delete(key);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Read the stored state for a space. Returns an empty object when nothing has
+* been stored yet or the persisted value is corrupt.
+*/
+export function getSpaceState(spaceName: string): SpaceState {
+  const raw = readRaw(KEY_PREFIX + spaceName);
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? (parsed as SpaceState) : {};
+  } catch (err) {
+    logWarn('spaceState: discarding unparsable state', { spaceName, err });
+    return {};
+  }
+}
+
+/**
+* Shallow-merge `patch` into the stored state for a space and persist it.
+*
+* @returns the updated state.
+*/
+export function updateSpaceState(spaceName: string, patch: SpaceState): SpaceState {
+  const next = { ...getSpaceState(spaceName), ...patch };
+  writeRaw(KEY_PREFIX + spaceName, JSON.stringify(next));
+  return next;
+}
+
+/** Remove every stored value for a space. */
+export function clearSpaceState(spaceName: string): void {
+  deleteRaw(KEY_PREFIX + spaceName);
+}
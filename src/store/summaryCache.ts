@@ -0,0 +1,86 @@
+/**
+* summaryCache.ts
+*
+* Cache of context summaries keyed by thread and the message range they
+* cover, so a long thread is summarised once per pruned span rather than on
+* every reply.
+*
+* Backends mirror `threadCache.ts`: `CacheService.getScriptCache()` on Apps
+* Script, an in-memory LRU of `SUMMARY_CACHE_MAX_ENTRIES` entries otherwise.
+* A summary of a fixed range only goes stale when one of its messages is
+* edited, so entries live for the CacheService maximum of 6 hours.
+*/
+
+import { getConfig } from '../config/index';
+
+// Only declare a minimal slice – we do not depend on the full typings here.
+declare const CacheService: {
+  getScriptCache(): {
+    get(key: string): string | null;
+    put(key: string, value: string, expirationInSeconds?: number): void;
+  };
+} | undefined;
+
+// ---------------------------------------------------------------------------
+// Backend selection
+// ---------------------------------------------------------------------------
+
+const KEY_PREFIX = 'summary:';
+const TTL_SECONDS = 21_600;
+
+/** Map iteration order doubles as LRU order (oldest first). */
+const memoryCache = new Map<string, { value: string; expiresAt: number }>();
+
+function scriptCache(): ReturnType<NonNullable<typeof CacheService>['getScriptCache']> | null {
+  if (typeof CacheService === 'undefined' || !CacheService?.getScriptCache) {
+    return null;
+  }
+  return CacheService.getScriptCache();
+}
+
+function cacheKey(threadName: string, firstMessage: string, lastMessage: string): string {
+  return `${KEY_PREFIX}${threadName}|${firstMessage}|${lastMessage}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Summary of `threadName` from `firstMessage` to `lastMessage` (inclusive). */
+export function getCachedSummary(threadName: string, firstMessage: string, lastMessage: string): string | undefined {
+  const key = cacheKey(threadName, firstMessage, lastMessage);
+
+  const cache = scriptCache();
+  if (cache) return cache.get(key) ?? undefined;
+
+  const entry = memoryCache.get(key);
+  if (!entry) return undefined;
+  memoryCache.delete(key);
+  if (entry.expiresAt <= Date.now()) return undefined;
+  memoryCache.set(key, entry); // refresh LRU position
+  return entry.value;
+}
+
+export function putCachedSummary(threadName: string, firstMessage: string, lastMessage: string, summary: string): void {
+  const key = cacheKey(threadName, firstMessage, lastMessage);
+
+  const cache = scriptCache();
+  if (cache) {
+    cache.put(key, summary, TTL_SECONDS);
+    return;
+  }
+
+  memoryCache.delete(key);
+  memoryCache.set(key, { value: summary, expiresAt: Date.now() + TTL_SECONDS * 1000 });
+
+  const parsed = Number(getConfig('SUMMARY_CACHE_MAX_ENTRIES', { required: false }));
+  const maxEntries = Number.isFinite(parsed) && parsed > 0 ? parsed : 200;
+  while (memoryCache.size > maxEntries) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+/** Clear the in-memory cache (tests / Node only). */
+export function clearSummaryCache(): void {
+  memoryCache.clear();
+}
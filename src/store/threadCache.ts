@@ -0,0 +1,168 @@
+/**
+* threadCache.ts
+*
+* Per-thread cache of Chat messages so repeated reads of the same thread
+* (AI replies, `/capture-knowledge`) only fetch what is new.
+*
+* Backends:
+*   1. Apps Script – `CacheService.getScriptCache()`; each thread is stored as
+*      one JSON value (`thread:<threadName>`). Values larger than the service's
+*      ~100 KB limit are simply not cached.
+*   2. Node.js / Jest – an in-memory LRU bounded to `THREAD_CACHE_MAX_THREADS`
+*      threads.
+*
+* Only the bot's own edits and deletes invalidate an entry. Entries expire
+* after `THREAD_CACHE_TTL_SECONDS` (default 300 s, max 6 h on Apps Script),
+* which bounds staleness from edits and deletes made by people.
+* Set `THREAD_CACHE=false` to disable caching entirely.
+*/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { getConfig } from '../config/index';
+import { warn as logWarn } from '../utils/logger';
+
+// Only declare a minimal slice – we do not depend on the full typings here.
+declare const CacheService: {
+  getScriptCache(): {
+    get(key: string): string | null;
+    put(key: string, value: string, expirationInSeconds?: number): void;
+    remove(key: string): void;
+  };
+} | undefined;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CachedThread<T = any> {
+  /** Messages sorted oldest → newest. */
+  messages: T[];
+  /** `createTime` of the newest cached message. */
+  latestCreateTime?: string;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Backend selection
+// ---------------------------------------------------------------------------
+
+const KEY_PREFIX = 'thread:';
+
+/** CacheService rejects values above 100 KB – leave headroom for the key. */
+const MAX_GAS_VALUE_LEN = 95_000;
+
+/** Map iteration order doubles as LRU order (oldest first). */
+const memoryCache = new Map<string, MemoryEntry>();
+
+function scriptCache(): ReturnType<NonNullable<typeof CacheService>['getScriptCache']> | null {
+  if (typeof CacheService === 'undefined' || !CacheService?.getScriptCache) {
+    return null;
+  }
+  return CacheService.getScriptCache();
+}
+
+function configNumber(key: string, fallback: number): number {
+  const parsed = Number(getConfig(key, { required: false }));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function ttlSeconds(): number {
+  // CacheService caps expirations at 6 hours.
+  return Math.min(configNumber('THREAD_CACHE_TTL_SECONDS', 300), 21_600);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Whether thread caching is enabled (default: yes). */
+export function isThreadCacheEnabled(): boolean {
+  return getConfig('THREAD_CACHE', { required: false }) !== 'false';
+}
+
+export function getCachedThread<T = any>(threadName: string): CachedThread<T> | undefined {
+  if (!isThreadCacheEnabled()) return undefined;
+  const key = KEY_PREFIX + threadName;
+
+  let raw: string | null | undefined;
+  const cache = scriptCache();
+  if (cache) {
+    raw = cache.get(key);
+  } else {
+    const entry = memoryCache.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      memoryCache.delete(key);
+    } else if (entry) {
+      // Refresh LRU position.
+      memoryCache.delete(key);
+      memoryCache.set(key, entry);
+      raw = entry.value;
+    }
+  }
+
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as CachedThread<T>;
+  } catch (err) {
+    logWarn('Discarding corrupt thread cache entry', { threadName, err });
+    invalidateThread(threadName);
+    return undefined;
+  }
+}
+
+export function putCachedThread<T = any>(threadName: string, entry: CachedThread<T>): void {
+  if (!isThreadCacheEnabled()) return;
+  const key = KEY_PREFIX + threadName;
+  const value = JSON.stringify(entry);
+
+  const cache = scriptCache();
+  if (cache) {
+    if (value.length > MAX_GAS_VALUE_LEN) {
+      cache.remove(key);
+      return;
+    }
+    cache.put(key, value, ttlSeconds());
+    return;
+  }
+
+  memoryCache.delete(key);
+  memoryCache.set(key, { value, expiresAt: Date.now() + ttlSeconds() * 1000 });
+
+  const maxThreads = configNumber('THREAD_CACHE_MAX_THREADS', 100);
+  while (memoryCache.size > maxThreads) {
+    const oldest = memoryCache.keys().next().value as string;
+    memoryCache.delete(oldest);
+  }
+}
+
+/** Drop a single thread – e.g. after the bot edited one of its messages. */
+export function invalidateThread(threadName: string): void {
+  const key = KEY_PREFIX + threadName;
+  const cache = scriptCache();
+  if (cache) cache.remove(key);
+  else memoryCache.delete(key);
+}
+
+/**
+* Drop every cached thread containing `messageName`.
+*
+* CacheService cannot enumerate keys, so under Apps Script this is a no-op
+* and the TTL bounds staleness instead.
+*/
+export function invalidateThreadsContaining(messageName: string): void {
+  if (scriptCache()) return;
+
+  Array.from(memoryCache.entries()).forEach(([key, entry]) => {
+    if (entry.value.includes(JSON.stringify(messageName))) memoryCache.delete(key);
+  });
+}
+
+/** Clear the in-memory cache (tests / Node only). */
+export function clearThreadCache(): void {
+  memoryCache.clear();
+}
@@ -0,0 +1,507 @@
+/**
+* http.ts
+*
+* Unified HTTP transport shared by the Google Chat, OAuth and LLM clients.
+*
+* One `request()` call works in every runtime the bundle targets by
+* delegating the actual I/O to an adapter:
+*   – `gasAdapter`   → UrlFetchApp (Apps Script; chosen whenever it exists).
+*   – `nodeAdapter`  → axios (Node.js – keeps nock-based tests working).
+*   – `fetchAdapter` → global fetch (other JS runtimes).
+*
+* On top of the adapter the transport provides:
+*   – typed request / response objects with lower-cased response headers;
+*   – per-request timeouts (ignored by UrlFetchApp, which has a fixed limit);
+*   – opt-in retries with exponential backoff, jitter, `Retry-After` support
+*     and a shared time budget (see `RetryOptions`);
+*   – request hooks for logging / metrics (`addHttpHook()`), with a built-in
+*     debug logger enabled by `HTTP_LOG_REQUESTS=true`;
+*   – `setHttpAdapter()` so tests can swap the I/O layer wholesale;
+*   – `requestStream()` for incremental bodies (e.g. server-sent events). Under
+*     Apps Script, which cannot stream, the whole body arrives as one chunk.
+*
+* `request()` never throws for HTTP error statuses – callers inspect
+* `status` or use `httpError()` to build a consistent error.
+*
+* The Node-only Sheets writer (`integrations/googleSheets.ts`) stays on the
+* `googleapis` client for its credentials and only borrows the backoff
+* helpers below.
+*/
+
+import { getConfig } from '../config/index';
+import { debug as logDebug } from './logger';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/** `json` parses the body (falling back to text); `binary` yields a Uint8Array. */
+export type ResponseType = 'json' | 'text' | 'binary';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  headers?: Record<string, string>;
+  /** JSON body – sent with `Content-Type: application/json`. */
+  json?: unknown;
+  /** Form body – sent as `application/x-www-form-urlencoded`. */
+  form?: Record<string, string>;
+  /** Defaults to `json`. */
+  responseType?: ResponseType;
+  /** Abort the request after this many milliseconds (Node / fetch only). */
+  timeoutMs?: number;
+  /** Retry policy. Omit (or `false`) for a single attempt. */
+  retry?: RetryOptions | false;
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  /** Response headers with lower-cased names. */
+  headers: Record<string, string>;
+  data: T;
+}
+
+/** Response whose body is consumed incrementally as decoded text chunks. */
+export interface HttpStreamResponse {
+  status: number;
+  /** Response headers with lower-cased names. */
+  headers: Record<string, string>;
+  body: AsyncIterable<string>;
+}
+
+/** Performs exactly one HTTP round-trip. */
+export interface HttpAdapter {
+  name: string;
+  send(req: HttpRequest): Promise<HttpResponse>;
+  /** Optional streaming variant; adapters without it buffer the body. */
+  stream?(req: HttpRequest): Promise<HttpStreamResponse>;
+}
+
+export interface HttpHooks {
+  onRequest?(req: HttpRequest, attempt: number): void;
+  onResponse?(req: HttpRequest, res: HttpResponse, durationMs: number, attempt: number): void;
+  onError?(req: HttpRequest, err: unknown, attempt: number): void;
+}
+
+/**
+* Shared allowance of time that may be spent sleeping between retries. Pass
+* the same budget to several requests (e.g. every page of a paginated fetch)
+* to cap their combined retry time.
+*/
+export interface RetryBudget {
+  remainingMs: number;
+}
+
+export interface RetryOptions {
+  /** Maximum retries after the first attempt. Default 3. */
+  maxRetries?: number;
+  /** Base delay for exponential backoff with full jitter. Default 1000 ms. */
+  baseDelayMs?: number;
+  /** Budget to draw from. Default: a fresh 30 s budget per request. */
+  budget?: RetryBudget;
+  /** Which responses to retry. Default: `isRetryableStatus`. */
+  retryOn?: (status: number, req: HttpRequest) => boolean;
+  /** Called when the budget cannot cover the next delay. */
+  onBudgetExhausted?: (info: { req: HttpRequest; status: number; attempts: number; delayMs: number }) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Internal state
+// ---------------------------------------------------------------------------
+
+let adapterOverride: HttpAdapter | null = null;
+const hooks = new Set<HttpHooks>();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function lowerCaseKeys(headers: any): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') return out;
+  Object.keys(headers).forEach((key) => {
+    out[key.toLowerCase()] = String(headers[key]);
+  });
+  return out;
+}
+
+/** Serialise the request body and pick its content type. */
+function encodeBody(req: HttpRequest): { contentType?: string; payload?: string } {
+  if (req.form) {
+    return { contentType: 'application/x-www-form-urlencoded', payload: new URLSearchParams(req.form).toString() };
+  }
+  if (req.json !== undefined) {
+    return { contentType: 'application/json', payload: JSON.stringify(req.json) };
+  }
+  return {};
+}
+
+function parseText(text: string, responseType: ResponseType): unknown {
+  if (responseType === 'text') return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Decode a stream of byte chunks as UTF-8, keeping split code points intact. */
+async function* decodeChunks(chunks: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+/** Apps Script – synchronous UrlFetchApp wrapped in a promise. */
+export const gasAdapter: HttpAdapter = {
+  name: 'gas',
+  async send(req) {
+    const { contentType, payload } = encodeBody(req);
+
+    // @ts-ignore – UrlFetchApp typings only in GAS
+    const response = UrlFetchApp.fetch(req.url, {
+      method: req.method,
+      headers: req.headers ?? {},
+      muteHttpExceptions: true,
+      ...(payload !== undefined ? { contentType, payload } : {}),
+    });
+
+    const status = response.getResponseCode();
+    const headers = lowerCaseKeys(response.getHeaders?.());
+
+    if (req.responseType === 'binary') {
+      // getContent() returns signed Java bytes – Uint8Array.from wraps them.
+      return { status, headers, data: Uint8Array.from(response.getContent()) };
+    }
+    return { status, headers, data: parseText(response.getContentText(), req.responseType ?? 'json') };
+  },
+};
+
+/** Node.js – axios (dynamically required so it never reaches the GAS bundle). */
+export const nodeAdapter: HttpAdapter = {
+  name: 'node',
+  async send(req) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const axios = require('axios');
+    const { contentType, payload } = encodeBody(req);
+    const responseType = req.responseType ?? 'json';
+
+    const res = await axios.request({
+      method: req.method,
+      url: req.url,
+      headers: { ...(req.headers ?? {}), ...(contentType ? { 'Content-Type': contentType } : {}) },
+      data: payload,
+      timeout: req.timeoutMs,
+      validateStatus: () => true,
+      responseType: responseType === 'binary' ? 'arraybuffer' : 'text',
+      // Parse ourselves so every adapter applies the same JSON fallback rules.
+      transformResponse: (body: unknown) => body,
+    });
+
+    const data = responseType === 'binary' ? new Uint8Array(res.data) : parseText(String(res.data ?? ''), responseType);
+    return { status: res.status, headers: lowerCaseKeys(res.headers), data };
+  },
+  async stream(req) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const axios = require('axios');
+    const { contentType, payload } = encodeBody(req);
+
+    const res = await axios.request({
+      method: req.method,
+      url: req.url,
+      headers: { ...(req.headers ?? {}), ...(contentType ? { 'Content-Type': contentType } : {}) },
+      data: payload,
+      timeout: req.timeoutMs,
+      validateStatus: () => true,
+      responseType: 'stream',
+    });
+
+    return { status: res.status, headers: lowerCaseKeys(res.headers), body: decodeChunks(res.data) };
+  },
+};
+
+/** Any runtime with a WHATWG `fetch` (browsers, workers, Node ≥ 18). */
+export const fetchAdapter: HttpAdapter = {
+  name: 'fetch',
+  async send(req) {
+    const { contentType, payload } = encodeBody(req);
+    const controller = req.timeoutMs ? new AbortController() : undefined;
+    const timer = controller ? setTimeout(() => controller.abort(), req.timeoutMs) : undefined;
+
+    try {
+      const res = await fetch(req.url, {
+        method: req.method.toUpperCase(),
+        headers: { ...(req.headers ?? {}), ...(contentType ? { 'Content-Type': contentType } : {}) },
+        body: payload,
+        signal: controller?.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      res.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+
+      const data =
+        req.responseType === 'binary'
+          ? new Uint8Array(await res.arrayBuffer())
+          : parseText(await res.text(), req.responseType ?? 'json');
+      return { status: res.status, headers, data };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  },
+  async stream(req) {
+    const { contentType, payload } = encodeBody(req);
+    const controller = req.timeoutMs ? new AbortController() : undefined;
+    // Bounds the wait for response headers only – streams may run longer.
+    const timer = controller ? setTimeout(() => controller.abort(), req.timeoutMs) : undefined;
+
+    let res: Response;
+    try {
+      res = await fetch(req.url, {
+        method: req.method.toUpperCase(),
+        headers: { ...(req.headers ?? {}), ...(contentType ? { 'Content-Type': contentType } : {}) },
+        body: payload,
+        signal: controller?.signal,
+      });
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    const reader = res.body?.getReader();
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      if (!reader) return;
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        if (value) yield value;
+      }
+    }
+
+    return { status: res.status, headers, body: decodeChunks(chunks()) };
+  },
+};
+
+/** Adapter used by `request()` – an explicit override wins. */
+export function getHttpAdapter(): HttpAdapter {
+  if (adapterOverride) return adapterOverride;
+  // @ts-ignore – UrlFetchApp only exists in GAS (or when stubbed by tests)
+  if (typeof UrlFetchApp !== 'undefined') return gasAdapter;
+  if (typeof process !== 'undefined' && process.versions?.node) return nodeAdapter;
+  if (typeof fetch === 'function') return fetchAdapter;
+  throw new Error('No compatible HTTP client (UrlFetchApp / axios / fetch) found.');
+}
+
+/** Replace the adapter for every request (pass `null` to restore detection). */
+export function setHttpAdapter(adapter: HttpAdapter | null): void {
+  adapterOverride = adapter;
+}
+
+/** Register request hooks. Returns a function that removes them again. */
+export function addHttpHook(hook: HttpHooks): () => void {
+  hooks.add(hook);
+  return () => {
+    hooks.delete(hook);
+  };
+}
+
+function runHooks<K extends keyof HttpHooks>(name: K, ...args: Parameters<NonNullable<HttpHooks[K]>>): void {
+  hooks.forEach((hook) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (hook[name] as any)?.(...args);
+  });
+}
+
+/** Strip the query string – it may carry tokens or PII. */
+function redactUrl(url: string): string {
+  return url.split('?')[0];
+}
+
+function logRequestsEnabled(): boolean {
+  return getConfig('HTTP_LOG_REQUESTS', { required: false }) === 'true';
+}
+
+// ---------------------------------------------------------------------------
+// Retry policy
+// ---------------------------------------------------------------------------
+
+/**
+* 429s are always safe to retry. 5xx responses are only retried for requests
+* that can be repeated without side effects – a retried POST could, for
+* example, post the same Chat message twice.
+*/
+export function isRetryableStatus(status: number, req: Pick<HttpRequest, 'method'>): boolean {
+  if (status === 429) return true;
+  return status >= 500 && req.method !== 'post';
+}
+
+export function createRetryBudget(ms: number = 30_000): RetryBudget {
+  return { remainingMs: ms };
+}
+
+/**
+* Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+* Returns `undefined` when the header is absent or malformed.
+*/
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  return Number.isFinite(date) ? Math.max(date - now, 0) : undefined;
+}
+
+/** Exponential backoff with full jitter: random in [0, base · 2^attempt]. */
+export function backoffDelayMs(attempt: number, baseDelayMs: number): number {
+  return Math.round(Math.random() * baseDelayMs * Math.pow(2, attempt));
+}
+
+export function sleep(ms: number): Promise<void> {
+  // @ts-ignore – Utilities only exists in GAS
+  if (typeof Utilities !== 'undefined' && typeof Utilities.sleep === 'function') {
+    // @ts-ignore
+    Utilities.sleep(ms);
+    return Promise.resolve();
+  }
+  return new Promise((res) => setTimeout(res, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+* Send a request through the active adapter, retrying per `req.retry`.
+*
+* Resolves with the final response whatever its status; rejects only on
+* transport failures (DNS, timeouts, …).
+*/
+export async function request<T = unknown>(req: HttpRequest): Promise<HttpResponse<T>> {
+  const adapter = getHttpAdapter();
+  const retry = req.retry || undefined;
+  const maxRetries = retry ? retry.maxRetries ?? 3 : 0;
+  const baseDelayMs = retry?.baseDelayMs ?? 1000;
+  const budget = retry?.budget ?? createRetryBudget();
+  const retryOn = retry?.retryOn ?? isRetryableStatus;
+  const logRequests = logRequestsEnabled();
+
+  let attempt = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    runHooks('onRequest', req, attempt);
+    const started = Date.now();
+
+    let res: HttpResponse;
+    try {
+      res = await adapter.send(req);
+    } catch (err) {
+      runHooks('onError', req, err, attempt);
+      throw err;
+    }
+
+    const durationMs = Date.now() - started;
+    runHooks('onResponse', req, res, durationMs, attempt);
+    if (logRequests) {
+      logDebug('HTTP request', {
+        adapter: adapter.name,
+        method: req.method,
+        url: redactUrl(req.url),
+        status: res.status,
+        durationMs,
+        attempt,
+      });
+    }
+
+    if (attempt >= maxRetries || !retryOn(res.status, req)) return res as HttpResponse<T>;
+
+    const delayMs = parseRetryAfter(res.headers['retry-after']) ?? backoffDelayMs(attempt, baseDelayMs);
+    if (delayMs > budget.remainingMs) {
+      retry?.onBudgetExhausted?.({ req, status: res.status, attempts: attempt + 1, delayMs });
+      return res as HttpResponse<T>;
+    }
+
+    budget.remainingMs -= delayMs;
+    attempt += 1;
+    await sleep(delayMs);
+  }
+}
+
+/**
+* Send a request and expose the response body as a stream of text chunks.
+*
+* Not retried – a partially consumed stream cannot be replayed. Adapters
+* without native streaming (UrlFetchApp) deliver the whole body as one chunk.
+*/
+export async function requestStream(req: HttpRequest): Promise<HttpStreamResponse> {
+  const adapter = getHttpAdapter();
+  runHooks('onRequest', req, 0);
+  const started = Date.now();
+
+  let res: HttpStreamResponse;
+  try {
+    if (adapter.stream) {
+      res = await adapter.stream(req);
+    } else {
+      const buffered = await adapter.send({ ...req, responseType: 'text' });
+      res = { status: buffered.status, headers: buffered.headers, body: singleChunk(String(buffered.data ?? '')) };
+    }
+  } catch (err) {
+    runHooks('onError', req, err, 0);
+    throw err;
+  }
+
+  // Duration covers time to response headers; the body is still streaming.
+  const durationMs = Date.now() - started;
+  runHooks('onResponse', req, { status: res.status, headers: res.headers, data: undefined }, durationMs, 0);
+  if (logRequestsEnabled()) {
+    logDebug('HTTP stream', {
+      adapter: adapter.name,
+      method: req.method,
+      url: redactUrl(req.url),
+      status: res.status,
+      durationMs,
+    });
+  }
+  return res;
+}
+
+async function* singleChunk(text: string): AsyncGenerator<string> {
+  if (text) yield text;
+}
+
+/** Drain a streamed body into a single string (e.g. to read an error body). */
+export async function readStreamText(body: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of body) text += chunk;
+  return text;
+}
+
+/**
+* Build the error thrown for a non-2xx response:
+* `"<service> returned HTTP <status>"`, with `status` and `data` attached.
+*/
+export function httpError(service: string, res: HttpResponse): Error & { status: number; data: unknown } {
+  return Object.assign(new Error(`${service} returned HTTP ${res.status}`), {
+    status: res.status,
+    data: res.data,
+  });
+}
@@ -0,0 +1,146 @@
+/**
+* runtime.ts
+*
+* Runtime detection and memoised dynamic imports shared by the Chat entry
+* points and the slash-command handlers.
+*
+* The bundle runs in two very different environments:
+*   1. Google Apps Script (V8) – no Node.js standard library, no `process`.
+*   2. Node.js (Jest, local CLI, Cloud Functions harness).
+*
+* Heavy modules (Google Chat REST client, LLM abstraction, Google Sheets
+* integration) are therefore loaded lazily through the helpers below so that
+* merely importing a controller never drags Node-only dependencies into the
+* Apps Script bundle.
+*/
+
+// Structured logger – ensures consistent JSON logs across all modules.
+import { error as logError } from './logger';
+
+// ---------------------------------------------------------------------------
+// Runtime detection
+// ---------------------------------------------------------------------------
+
+export type RuntimeKind = 'gas' | 'node';
+
+/**
+* Very small feature-flag that tells us whether we are executing inside a
+* Node.js process. When bundled for Apps Script the global `process` object is
+* absent, so this check reliably discriminates between the two runtimes.
+*/
+export const IS_NODE: boolean = typeof process !== 'undefined' && !!process?.versions?.node;
+
+/** Name of the runtime the bundle is currently executing in. */
+export function currentRuntime(): RuntimeKind {
+  return IS_NODE ? 'node' : 'gas';
+}
+
+/**
+* ENABLE_AI feature flag. The AI reply path relies on dynamic `import()` and
+* is therefore only available under Node.js.
+*/
+export function isAiEnabled(): boolean {
+  return IS_NODE && process.env?.ENABLE_AI === 'true';
+}
+
+// ---------------------------------------------------------------------------
+// Memoised dynamic imports – GoogleChatService & LLM abstraction
+// ---------------------------------------------------------------------------
+
+/**
+* Cache objects for dynamically imported heavy modules so that `import()` is
+* executed only once per module. Subsequent calls reuse the already–resolved
+* module reference which avoids repeated module graph construction (and
+* potential network/disk latency when running in a non-bundled Node.js
+* environment such as tests).
+*/
+
+// eslint-disable-next-line @typescript-eslint/consistent-type-imports
+let chatServiceModule: typeof import('../services/GoogleChatService') | null = null;
+
+// eslint-disable-next-line @typescript-eslint/consistent-type-imports
+let llmModule: typeof import('../llm/index') | null = null;
+
+/** Lazily import the Google Chat REST client. */
+// eslint-disable-next-line @typescript-eslint/consistent-type-imports
+export async function loadChatService(): Promise<typeof import('../services/GoogleChatService')> {
+  if (!chatServiceModule) {
+    chatServiceModule = await import('../services/GoogleChatService');
+  }
+  return chatServiceModule;
+}
+
+/** Lazily import the LLM provider abstraction. */
+// eslint-disable-next-line @typescript-eslint/consistent-type-imports
+export async function loadLlm(): Promise<typeof import('../llm/index')> {
+  if (!llmModule) {
+    llmModule = await import('../llm/index');
+  }
+  return llmModule;
+}
+
+// ---------------------------------------------------------------------------
+// Lazy Google Sheets integration (loaded only under Node.js)
+// ---------------------------------------------------------------------------
+
+export type FormatCapturedKnowledgeFn = (entry: {
+  timestamp: string;
+  source: string;
+  content: string;
+  tags?: string[];
+}) => string[];
+
+export type AppendRowsFn = (rows: string[][]) => Promise<void>;
+
+export interface SheetsIntegration {
+  formatCapturedKnowledge: FormatCapturedKnowledgeFn;
+  appendRows: AppendRowsFn;
+}
+
+let sheetsIntegration: SheetsIntegration | null = null;
+
+// Cached promise used to ensure the dynamic import happens at most once per
+// process. Subsequent callers of `ensureSheetsIntegration()` await the same
+// promise, guaranteeing idempotent initialisation.
+let sheetsIntegrationPromise: Promise<SheetsIntegration | null> | null = null;
+
+/**
+* Dynamically import the Google Sheets integration the first time we need it.
+*
+* Because `import()` is just an expression it will be parsed without being
+* executed under GAS, but we still guard the call with `IS_NODE` to prevent
+* accidental resolution attempts.
+*
+* @returns the loaded helpers, or `null` when running outside Node.js.
+*/
+export function ensureSheetsIntegration(): Promise<SheetsIntegration | null> {
+  // Fast-exit when running under Apps Script / non-Node environments.
+  if (!IS_NODE) return Promise.resolve(null);
+
+  // If the helpers are already populated we have nothing to do. Prefer the
+  // cached promise (if any) so that concurrent callers share the same state.
+  if (sheetsIntegration) {
+    return sheetsIntegrationPromise ?? Promise.resolve(sheetsIntegration);
+  }
+
+  // First caller kicks off the dynamic import and stores the resulting promise
+  // so that all other callers await the same work.
+  if (!sheetsIntegrationPromise) {
+    sheetsIntegrationPromise = import('../integrations/googleSheets')
+      .then((mod) => {
+        sheetsIntegration = {
+          formatCapturedKnowledge: mod.formatCapturedKnowledge as FormatCapturedKnowledgeFn,
+          appendRows: mod.appendRows as AppendRowsFn,
+        };
+        return sheetsIntegration;
+      })
+      .catch((err) => {
+        // Surface the error to all awaiters but keep a rejected promise cached
+        // so that future calls don’t repeatedly attempt to import.
+        logError('Failed to load googleSheets integration', { err });
+        throw err;
+      });
+  }
+
+  return sheetsIntegrationPromise;
+}
@@ -0,0 +1,79 @@
+/**
+* sse.ts
+*
+* Incremental parser for `text/event-stream` bodies (server-sent events), as
+* used by streaming LLM endpoints. Feed it the decoded text chunks from
+* `requestStream()`; chunk boundaries may fall anywhere, including mid-line.
+*
+* Implements the parts of the WHATWG event-stream format that APIs use in
+* practice: `data` (multi-line joined with "\n"), `event`, `id`, comment
+* lines and CRLF / LF / CR line endings. `retry` is ignored.
+*/
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SseEvent {
+  /** Event type – `message` when the stream does not name one. */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Yield each complete event from a stream of text chunks. */
+export async function* parseSseStream(chunks: AsyncIterable<string>): AsyncGenerator<SseEvent> {
+  let buffer = '';
+  let data: string[] = [];
+  let event = '';
+  let id: string | undefined;
+
+  const dispatch = (): SseEvent | undefined => {
+    const out: SseEvent | undefined = data.length
+      ? { event: event || 'message', data: data.join('\n'), ...(id !== undefined ? { id } : {}) }
+      : undefined;
+    data = [];
+    event = '';
+    return out;
+  };
+
+  const handleLine = (line: string): SseEvent | undefined => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event = value;
+    else if (field === 'id') id = value;
+    return undefined;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+
+    let match: RegExpExecArray | null;
+    // A trailing "\r" may be the first half of "\r\n" – wait for more input.
+    while ((match = /\r\n|\n|\r(?=[^\n])/.exec(buffer))) {
+      const line = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+      const evt = handleLine(line);
+      if (evt) yield evt;
+    }
+  }
+
+  // Flush an unterminated final line / event.
+  if (buffer) {
+    const evt = handleLine(buffer.replace(/\r$/, ''));
+    if (evt) yield evt;
+  }
+  const last = dispatch();
+  if (last) yield last;
+}
@@ -0,0 +1,273 @@
+import nock from 'nock';
+
+import { onMessage, onSlashCommand } from '../src/server/ChatBot';
+import { flushAsyncReplies, replyAsync, THINKING_TEXT } from '../src/controllers/asyncReply';
+import * as runtime from '../src/utils/runtime';
+
+describe('async reply mode (ASYNC_REPLIES=true)', () => {
+  const chatBase = 'https://chat.googleapis.com';
+
+  const threadEvent = {
+    type: 'MESSAGE',
+    space: { name: 'spaces/AAA' },
+    message: {
+      name: 'spaces/AAA/messages/M1',
+      text: 'How do I rotate the API key?',
+      thread: { name: 'spaces/AAA/threads/BBB' },
+    },
+  };
+
+  beforeEach(() => {
+    process.env.ENABLE_AI = 'true';
+    process.env.ASYNC_REPLIES = 'true';
+    process.env.OPENAI_API_KEY = 'key';
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'chat-token';
+  });
+
+  afterEach(() => {
+    delete process.env.ENABLE_AI;
+    delete process.env.ASYNC_REPLIES;
+    delete process.env.OPENAI_API_KEY;
+    nock.cleanAll();
+  });
+
+  it('posts a placeholder and edits it into the answer', async () => {
+    nock(chatBase)
+      .get('/v1/spaces/AAA/threads/BBB/messages')
+      .query(true)
+      .reply(200, {
+        messages: [{ name: 'spaces/AAA/messages/M1', text: 'How do I rotate the API key?', createTime: '2025-07-25T10:00:00Z' }],
+      });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, { choices: [{ message: { content: 'Use the admin console.' } }] });
+
+    let placeholder: any;
+    const postScope = nock(chatBase)
+      .post('/v1/spaces/AAA/messages', (body) => {
+        placeholder = body;
+        return true;
+      })
+      .query({ messageReplyOption: 'REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD' })
+      .matchHeader('authorization', 'Bearer chat-token')
+      .reply(200, { name: 'spaces/AAA/messages/P' });
+
+    let final: any;
+    const patchScope = nock(chatBase)
+      .patch('/v1/spaces/AAA/messages/P', (body) => {
+        final = body;
+        return true;
+      })
+      .query({ updateMask: 'text,cardsV2' })
+      .reply(200, { name: 'spaces/AAA/messages/P' });
+
+    const ack = await onMessage(threadEvent);
+    expect(ack).toEqual({});
+
+    await flushAsyncReplies();
+
+    postScope.done();
+    patchScope.done();
+    expect(placeholder).toEqual({ text: THINKING_TEXT, thread: { name: 'spaces/AAA/threads/BBB' } });
+    expect(final.text).toBe('Use the admin console.');
+    expect(final.cardsV2[0].cardId).toBe('answer-feedback');
+  });
+
+  it('edits the placeholder into an error card when producing the answer fails', async () => {
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(500, {});
+    nock(chatBase).post('/v1/spaces/AAA/messages').query(true).reply(200, { name: 'spaces/AAA/messages/P' });
+
+    let final: any;
+    nock(chatBase)
+      .patch('/v1/spaces/AAA/messages/P', (body) => {
+        final = body;
+        return true;
+      })
+      .query(true)
+      .reply(200, {});
+
+    const ack = await onSlashCommand({
+      type: 'MESSAGE',
+      space: { name: 'spaces/AAA' },
+      message: { argumentText: 'hello?', slashCommand: { commandId: 1 } },
+    });
+    expect(ack).toEqual({});
+
+    await flushAsyncReplies();
+
+    expect(final.text).toMatch(/Sorry/);
+    expect(final.cardsV2[0].cardId).toBe('error');
+  });
+
+  it('swallows (and logs) failures when posting the placeholder', async () => {
+    nock(chatBase).post('/v1/spaces/AAA/messages').reply(403, { error: 'forbidden' });
+
+    await onSlashCommand({
+      type: 'MESSAGE',
+      space: { name: 'spaces/AAA' },
+      message: { argumentText: 'hi', slashCommand: { commandId: 1 } },
+    });
+
+    await expect(flushAsyncReplies()).resolves.toBeUndefined();
+  });
+
+  it('swallows (and logs) failures when loading the Chat client', async () => {
+    const load = jest.spyOn(runtime, 'loadChatService').mockRejectedValueOnce(new Error('import failed'));
+    const produce = jest.fn();
+
+    expect(replyAsync({ spaceName: 'spaces/AAA', produce })).toEqual({});
+    await expect(flushAsyncReplies()).resolves.toBeUndefined();
+    expect(produce).not.toHaveBeenCalled();
+    load.mockRestore();
+  });
+});
+
+describe('streaming reply mode (STREAM_REPLIES=true)', () => {
+  const chatBase = 'https://chat.googleapis.com';
+  const askEvent = {
+    type: 'MESSAGE',
+    space: { name: 'spaces/AAA' },
+    message: { argumentText: 'hi', slashCommand: { commandId: 1 }, thread: { name: 'spaces/AAA/threads/T' } },
+  };
+  const sse = (...parts: string[]) =>
+    parts.map((p) => `data: ${JSON.stringify({ choices: [{ delta: { content: p } }] })}\n\n`).join('') +
+    'data: [DONE]\n\n';
+
+  beforeEach(() => {
+    process.env.ENABLE_AI = 'true';
+    process.env.STREAM_REPLIES = 'true';
+    process.env.STREAM_UPDATE_INTERVAL_MS = '0';
+    process.env.OPENAI_API_KEY = 'key';
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'chat-token';
+  });
+
+  afterEach(() => {
+    delete process.env.ENABLE_AI;
+    delete process.env.STREAM_REPLIES;
+    delete process.env.STREAM_UPDATE_INTERVAL_MS;
+    delete process.env.OPENAI_API_KEY;
+    nock.cleanAll();
+  });
+
+  it('posts a placeholder, edits it as tokens arrive and finishes with the answer card', async () => {
+    nock(chatBase).get('/v1/spaces/AAA/threads/T/messages').query(true).reply(200, { messages: [] });
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, sse('Use ', 'the ', 'console.'));
+
+    let placeholder: any;
+    nock(chatBase)
+      .post('/v1/spaces/AAA/messages', (body) => {
+        placeholder = body;
+        return true;
+      })
+      .query(true)
+      .reply(200, { name: 'spaces/AAA/messages/P' });
+
+    const patches: Array<{ mask: string; body: any }> = [];
+    nock(chatBase)
+      .patch('/v1/spaces/AAA/messages/P', (body) => {
+        patches.push({ mask: '', body });
+        return true;
+      })
+      .query((q) => {
+        patches.push({ mask: String(q.updateMask), body: undefined });
+        return true;
+      })
+      .times(4)
+      .reply(200, { name: 'spaces/AAA/messages/P' });
+
+    const ack = await onSlashCommand(askEvent);
+    expect(ack).toEqual({});
+
+    await flushAsyncReplies();
+
+    expect(placeholder).toEqual({ text: THINKING_TEXT, thread: { name: 'spaces/AAA/threads/T' } });
+    const bodies = patches.filter((p) => p.body).map((p) => p.body);
+    expect(bodies.slice(0, -1).map((b) => b.text)).toEqual(['Use', 'Use the', 'Use the console.']);
+    expect(bodies[bodies.length - 1].text).toBe('Use the console.');
+    expect(bodies[bodies.length - 1].cardsV2[0].cardId).toBe('answer-feedback');
+    expect(patches.filter((p) => p.mask).map((p) => p.mask).pop()).toBe('text,cardsV2');
+  });
+
+  it('leaves its own placeholder out of the thread context', async () => {
+    nock(chatBase)
+      .get('/v1/spaces/AAA/threads/T/messages')
+      .query(true)
+      .reply(200, {
+        messages: [
+          { name: 'spaces/AAA/messages/Q', text: 'How do I rotate the key?', createTime: '2025-07-25T10:00:00Z', sender: { type: 'HUMAN' } },
+          { name: 'spaces/AAA/messages/P', text: THINKING_TEXT, createTime: '2025-07-25T10:00:01Z', sender: { type: 'BOT' } },
+        ],
+      });
+    nock(chatBase).post('/v1/spaces/AAA/messages').query(true).reply(200, { name: 'spaces/AAA/messages/P' });
+    nock(chatBase).patch('/v1/spaces/AAA/messages/P').query(true).times(3).reply(200, { name: 'spaces/AAA/messages/P' });
+
+    let prompt: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        prompt = body;
+        return true;
+      })
+      .reply(200, sse('Use the console.'));
+
+    await onMessage({
+      type: 'MESSAGE',
+      space: { name: 'spaces/AAA' },
+      message: { name: 'spaces/AAA/messages/Q', text: 'How do I rotate the key?', thread: { name: 'spaces/AAA/threads/T' } },
+    });
+    await flushAsyncReplies();
+
+    expect(prompt.messages.map((m: any) => m.content)).not.toContain(THINKING_TEXT);
+    expect(prompt.messages[prompt.messages.length - 1]).toMatchObject({ role: 'user', content: 'How do I rotate the key?' });
+  });
+
+  it('replaces the placeholder with an error card when streaming fails', async () => {
+    process.env.STREAM_UPDATE_INTERVAL_MS = '60000';
+    nock(chatBase).get(/threads/).query(true).reply(200, { messages: [] });
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(500, 'boom');
+    nock(chatBase).post('/v1/spaces/AAA/messages').query(true).reply(200, { name: 'spaces/AAA/messages/P' });
+
+    let final: any;
+    nock(chatBase)
+      .patch('/v1/spaces/AAA/messages/P', (body) => {
+        final = body;
+        return true;
+      })
+      .query({ updateMask: 'text,cardsV2' })
+      .reply(200, {});
+
+    await onSlashCommand(askEvent);
+    await flushAsyncReplies();
+
+    expect(final.text).toMatch(/Sorry/);
+    expect(final.cardsV2[0].cardId).toBe('error');
+  });
+
+  it('replaces the placeholder with an error card when the stream yields no text', async () => {
+    nock(chatBase).get(/threads/).query(true).reply(200, { messages: [] });
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, sse());
+    nock(chatBase).post('/v1/spaces/AAA/messages').query(true).reply(200, { name: 'spaces/AAA/messages/P' });
+
+    let final: any;
+    nock(chatBase)
+      .patch('/v1/spaces/AAA/messages/P', (body) => {
+        final = body;
+        return true;
+      })
+      .query({ updateMask: 'text,cardsV2' })
+      .reply(200, {});
+
+    await onSlashCommand(askEvent);
+    await flushAsyncReplies();
+
+    expect(final.text).toMatch(/Sorry/);
+    expect(final.cardsV2[0].cardId).toBe('error');
+  });
+
+  it('gives up quietly when the placeholder cannot be posted', async () => {
+    nock(chatBase).post('/v1/spaces/AAA/messages').query(true).reply(403, { error: 'forbidden' });
+
+    await onSlashCommand({ ...askEvent, message: { argumentText: 'hi', slashCommand: { commandId: 1 } } });
+    await expect(flushAsyncReplies()).resolves.toBeUndefined();
+  });
+});
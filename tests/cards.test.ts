@@ -0,0 +1,114 @@
+import {
+  buildCardMessage,
+  buildErrorMessage,
+  buttonList,
+  decoratedText,
+  divider,
+  section,
+  textInput,
+  toOnClick,
+} from '../src/controllers/cards';
+import { buildAnswerMessage, buildCaptureMessage } from '../src/controllers/replyCards';
+import { onCardClick } from '../src/server/ChatBot';
+
+describe('cards – widget builders', () => {
+  it('maps buttons onto action / openLink onClick structures', () => {
+    expect(toOnClick({ url: 'https://example.com' })).toEqual({ openLink: { url: 'https://example.com' } });
+    expect(toOnClick({ action: 'go', parameters: { a: '1' } })).toEqual({
+      action: { function: 'go', parameters: [{ key: 'a', value: '1' }] },
+    });
+    expect(toOnClick({ action: 'go' })).toEqual({ action: { function: 'go' } });
+    expect(() => toOnClick({})).toThrow(/action or a url/);
+  });
+
+  it('builds a cardsV2 message with text fallback', () => {
+    const msg = buildCardMessage({
+      fallbackText: 'summary',
+      cardId: 'demo',
+      card: {
+        header: { title: 'Title' },
+        sections: [
+          section([decoratedText('value', { topLabel: 'Label', button: { text: 'Go', action: 'go' } })], 'Head'),
+          section([divider(), textInput('q', 'Question', 'Type here'), buttonList([{ text: 'B', url: 'https://x' }])]),
+        ],
+      },
+    });
+
+    expect(msg).not.toHaveProperty('text');
+    expect(msg.fallbackText).toBe('summary');
+    expect(msg.cardsV2).toEqual([
+      {
+        cardId: 'demo',
+        card: {
+          header: { title: 'Title' },
+          sections: [
+            {
+              header: 'Head',
+              widgets: [
+                {
+                  decoratedText: {
+                    text: 'value',
+                    topLabel: 'Label',
+                    button: { text: 'Go', onClick: { action: { function: 'go' } } },
+                  },
+                },
+              ],
+            },
+            {
+              widgets: [
+                { divider: {} },
+                { textInput: { name: 'q', label: 'Question', hintText: 'Type here' } },
+                { buttonList: { buttons: [{ text: 'B', onClick: { openLink: { url: 'https://x' } } }] } },
+              ],
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('keeps the error summary visible as text', () => {
+    const msg: any = buildErrorMessage('Oops.', 'Thread missing.');
+    expect(msg.text).toBe('Oops. Thread missing.');
+    expect(msg.cardsV2[0].card.sections[0].widgets[0].textParagraph.text).toBe('Thread missing.');
+  });
+});
+
+describe('replyCards', () => {
+  afterEach(() => {
+    delete process.env.SHEETS_SPREADSHEET_ID;
+  });
+
+  it('adds an "Open in sheet" button when the spreadsheet is configured', () => {
+    process.env.SHEETS_SPREADSHEET_ID = 'sheet123';
+
+    const msg: any = buildCaptureMessage({
+      spaceId: 'AAA',
+      threadId: 'BBB',
+      source: 'AAA/BBB',
+      tags: ['chat'],
+      preview: 'What is X?',
+    });
+
+    expect(msg.text).toMatch(/captured context for thread BBB/);
+    const [details, actions] = msg.cardsV2[0].card.sections;
+    expect(details.widgets.map((w: any) => w.decoratedText.topLabel)).toEqual(['Source', 'Tags', 'Question']);
+    expect(actions.widgets[0].buttonList.buttons[0].onClick.openLink.url).toBe(
+      'https://docs.google.com/spreadsheets/d/sheet123'
+    );
+  });
+
+  it('attaches helpful / not helpful buttons to AI answers and records feedback', async () => {
+    const msg: any = buildAnswerMessage('42', { threadName: 'spaces/A/threads/B' });
+    expect(msg.text).toBe('42');
+
+    const [yes] = msg.cardsV2[0].card.sections[0].widgets[0].buttonList.buttons;
+    expect(yes.onClick.action.function).toBe('markHelpful');
+
+    const ack: any = await onCardClick({
+      type: 'CARD_CLICKED',
+      action: { actionMethodName: 'markHelpful', parameters: yes.onClick.action.parameters },
+    });
+    expect(ack.fallbackText).toMatch(/Thanks for the feedback/);
+  });
+});
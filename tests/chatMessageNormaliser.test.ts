@@ -0,0 +1,123 @@
+import {
+  chatMarkupToMarkdown,
+  normaliseChatMessageText,
+  toRawThreadMessage,
+} from '../src/pipeline/ChatMessageNormaliser';
+
+describe('chatMarkupToMarkdown', () => {
+  it('converts Chat formatting to standard Markdown', () => {
+    expect(chatMarkupToMarkdown('*bold* and _italic_ and ~gone~')).toBe('**bold** and *italic* and ~~gone~~');
+    expect(chatMarkupToMarkdown('2 * 3 * 4 and snake_case_name')).toBe('2 * 3 * 4 and snake_case_name');
+  });
+
+  it('converts links and user tokens', () => {
+    expect(chatMarkupToMarkdown('<https://x.io|the docs> or <https://y.io>')).toBe('[the docs](https://x.io) or https://y.io');
+    expect(chatMarkupToMarkdown('ping <users/1> <users/2> <users/all>', { 'users/1': 'Ada' })).toBe(
+      'ping @Ada @users/2 @all'
+    );
+  });
+
+  it('leaves code spans and fenced blocks untouched', () => {
+    const text = 'run `rm *.log*` then\n```\n*keep* _this_\n```\n*done*';
+    expect(chatMarkupToMarkdown(text)).toBe('run `rm *.log*` then\n```\n*keep* _this_\n```\n**done**');
+    expect(chatMarkupToMarkdown('')).toBe('');
+  });
+});
+
+describe('normaliseChatMessageText', () => {
+  it('strips a leading bot mention and resolves other mentions', () => {
+    const text = '@KnowledgeBot can @Ada review *this*?';
+    const msg = {
+      text,
+      annotations: [
+        {
+          type: 'USER_MENTION',
+          startIndex: 0,
+          length: 13,
+          userMention: { user: { name: 'users/BOT', displayName: 'KnowledgeBot', type: 'BOT' } },
+        },
+        {
+          type: 'USER_MENTION',
+          startIndex: 18,
+          length: 4,
+          userMention: { user: { name: 'users/1', displayName: 'Ada Lovelace', type: 'HUMAN' } },
+        },
+      ],
+    };
+
+    expect(normaliseChatMessageText(msg)).toBe('can @Ada Lovelace review **this**?');
+  });
+
+  it('strips leading slash commands and honours configured bot ids', () => {
+    expect(
+      normaliseChatMessageText({
+        text: '/ask how do I deploy?',
+        annotations: [{ type: 'SLASH_COMMAND', startIndex: 0, length: 4, slashCommand: { commandName: '/ask' } }],
+      })
+    ).toBe('how do I deploy?');
+
+    expect(
+      normaliseChatMessageText(
+        {
+          text: '<users/9> hello <users/9>',
+          annotations: [
+            { type: 'USER_MENTION', startIndex: 0, length: 9, userMention: { user: { name: 'users/9' } } },
+          ],
+        },
+        { botUserIds: ['users/9'], userNames: { 'users/9': 'Helper' } }
+      )
+    ).toBe('hello @Helper');
+  });
+
+  it('keeps mentions in the middle of text even for bots and copes with missing text', () => {
+    expect(
+      normaliseChatMessageText({
+        text: 'thanks @Bot',
+        annotations: [
+          {
+            type: 'USER_MENTION',
+            startIndex: 7,
+            length: 4,
+            userMention: { user: { name: 'users/BOT', displayName: 'Bot', type: 'BOT' } },
+          },
+          { type: 'RICH_LINK' },
+        ],
+      })
+    ).toBe('thanks @Bot');
+    expect(normaliseChatMessageText({})).toBe('');
+  });
+});
+
+describe('toRawThreadMessage', () => {
+  it('maps Chat messages onto RawThreadMessage', () => {
+    const raw = toRawThreadMessage({
+      name: 'spaces/A/messages/1',
+      text: '*see* log',
+      createTime: '2025-07-25T10:00:00Z',
+      sender: { name: 'users/1', displayName: 'Ada' },
+      isAiBot: true,
+      attachment: [{ contentName: 'log.txt', downloadUri: 'https://dl' }],
+    });
+
+    expect(raw).toEqual({
+      messageId: 'spaces/A/messages/1',
+      authorId: 'Ada',
+      content: '**see** log',
+      timestamp: '2025-07-25T10:00:00Z',
+      isBot: true,
+      role: 'assistant',
+      attachments: [{ name: 'log.txt', contentType: undefined, url: 'https://dl', source: 'upload' }],
+    });
+
+    const fallback = toRawThreadMessage({ sender: { name: 'users/2' } });
+    expect(fallback.authorId).toBe('users/2');
+    expect(fallback.messageId).toBe('');
+    expect(toRawThreadMessage({}).authorId).toBe('unknown');
+  });
+
+  it('tags the sender role, preferring the service classification', () => {
+    expect(toRawThreadMessage({ senderRole: 'bot', isAiBot: false }).role).toBe('bot');
+    expect(toRawThreadMessage({ sender: { name: 'users/J', type: 'BOT' } }).role).toBe('bot');
+    expect(toRawThreadMessage({ sender: { name: 'users/1', type: 'HUMAN' } }).role).toBe('human');
+  });
+});
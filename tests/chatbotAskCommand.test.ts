@@ -0,0 +1,108 @@
+import nock from 'nock';
+
+import { onMessage, onSlashCommand } from '../src/server/ChatBot';
+
+describe('/ask command (commandId 1)', () => {
+  const chatBase = 'https://chat.googleapis.com';
+  const threadPath = '/v1/spaces/AAA/threads/BBB/messages';
+
+  const askEvent = (argumentText: string, thread?: string) => ({
+    type: 'MESSAGE',
+    space: { name: 'spaces/AAA' },
+    user: { name: 'users/1', displayName: 'Alice' },
+    message: {
+      name: 'spaces/AAA/messages/ASK',
+      text: `/ask ${argumentText}`,
+      argumentText,
+      slashCommand: { commandId: '1' },
+      ...(thread ? { thread: { name: thread } } : {}),
+    },
+  });
+
+  beforeEach(() => {
+    process.env.ENABLE_AI = 'true';
+    process.env.OPENAI_API_KEY = 'key';
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'chat-token';
+  });
+
+  afterEach(() => {
+    delete process.env.ENABLE_AI;
+    delete process.env.OPENAI_API_KEY;
+    nock.cleanAll();
+  });
+
+  it('prints usage when no question is given', async () => {
+    const res = await onSlashCommand(askEvent('  '));
+    expect(res.text).toMatch(/Usage: \/ask/);
+  });
+
+  it('respects the ENABLE_AI flag', async () => {
+    delete process.env.ENABLE_AI;
+    const res = await onSlashCommand(askEvent('What is up?'));
+    expect(res.text).toMatch(/AI reply path disabled/);
+  });
+
+  it('answers outside a thread using only the question', async () => {
+    let sentMessages: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        sentMessages = body.messages;
+        return true;
+      })
+      .reply(200, { choices: [{ message: { content: 'Because.' } }] });
+
+    const res = await onSlashCommand(askEvent('Why is the sky blue?'));
+
+    expect(res.text).toBe('Because.');
+    expect(sentMessages).toEqual([
+      { role: 'system', content: expect.any(String) },
+      { role: 'user', content: 'Why is the sky blue?', name: 'Alice' },
+    ]);
+  });
+
+  it('is routed from onMessage and includes thread context (minus the /ask message)', async () => {
+    nock(chatBase)
+      .get(threadPath)
+      .query(true)
+      .reply(200, {
+        messages: [
+          {
+            name: 'spaces/AAA/threads/BBB/messages/1',
+            text: 'Deploy failed with exit code 137',
+            createTime: '2025-07-25T10:00:00Z',
+            sender: { name: 'users/2', displayName: 'Bob' },
+          },
+          {
+            name: 'spaces/AAA/messages/ASK',
+            text: '/ask what does it mean?',
+            createTime: '2025-07-25T10:01:00Z',
+            sender: { name: 'users/1', displayName: 'Alice' },
+          },
+        ],
+      });
+
+    let sentMessages: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        sentMessages = body.messages;
+        return true;
+      })
+      .reply(200, { choices: [{ message: { content: 'Out of memory.' } }] });
+
+    const res = await onMessage(askEvent('what does it mean?', 'spaces/AAA/threads/BBB'));
+
+    expect(res!.text).toBe('Out of memory.');
+    expect(sentMessages.slice(1)).toEqual([
+      { role: 'user', content: 'Deploy failed with exit code 137', name: 'Bob' },
+      { role: 'user', content: 'what does it mean?', name: 'Alice' },
+    ]);
+    expect(JSON.stringify(sentMessages)).not.toContain('/ask');
+  });
+
+  it('replies with an apology when the LLM call fails', async () => {
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(500, {});
+
+    const res = await onSlashCommand(askEvent('Hello?'));
+    expect(res.text).toMatch(/Sorry/);
+  });
+});
@@ -0,0 +1,80 @@
+// ---------------------------------------------------------------------------
+// doPost routing – exercises the Apps Script web-app entry point with a
+// minimal ContentService stand-in so the JSON payload can be inspected.
+// ---------------------------------------------------------------------------
+
+import { doPost } from '../src/server/ChatBot';
+
+function installContentServiceStub(): void {
+  (globalThis as any).ContentService = {
+    MimeType: { JSON: 'application/json' },
+    createTextOutput: (content: string) => ({
+      content,
+      setMimeType() {
+        return this;
+      },
+    }),
+  };
+}
+
+async function post(event: unknown): Promise<any> {
+  const out: any = await doPost({
+    postData: { contents: JSON.stringify(event) },
+  } as any);
+  return JSON.parse(out.content);
+}
+
+describe('ChatBot.doPost', () => {
+  beforeAll(() => {
+    installContentServiceStub();
+  });
+
+  afterAll(() => {
+    delete (globalThis as any).ContentService;
+  });
+
+  it('reports missing payloads', async () => {
+    const out: any = await doPost({} as any);
+    expect(JSON.parse(out.content)).toEqual({ text: 'No payload received.' });
+  });
+
+  it('routes slash commands through the command registry (string ids included)', async () => {
+    const res = await post({
+      type: 'MESSAGE',
+      message: { slashCommand: { commandId: 'ping' } },
+    });
+    expect(res).toEqual({ text: 'pong' });
+
+    const unknown = await post({
+      type: 'MESSAGE',
+      message: { slashCommand: { commandId: '999' } },
+    });
+    expect(unknown.text).toMatch(/Unknown command "999"/);
+  });
+
+  it('routes plain MESSAGE events to onMessage', async () => {
+    const res = await post({ type: 'MESSAGE', message: { text: 'hey' } });
+    expect(res).toEqual({ text: 'You said: "hey"' });
+  });
+
+  it('routes space lifecycle events', async () => {
+    const added = await post({ type: 'ADDED_TO_SPACE', space: { name: 'spaces/POST' } });
+    expect(added.text).toMatch(/Thanks for installing/);
+
+    const removed = await post({ type: 'REMOVED_FROM_SPACE', space: { name: 'spaces/POST' } });
+    expect(removed).toEqual({});
+
+    const clicked = await post({ type: 'CARD_CLICKED', action: { actionMethodName: 'missing' } });
+    expect(clicked.text).toMatch(/Unknown action/);
+  });
+
+  it('answers unsupported event types with a fallback', async () => {
+    const res = await post({ type: 'SOMETHING_ELSE' });
+    expect(res).toEqual({ text: 'Unsupported event.' });
+  });
+
+  it('returns an internal-error payload for malformed JSON', async () => {
+    const out: any = await doPost({ postData: { contents: '{not json' } } as any);
+    expect(JSON.parse(out.content).text).toMatch(/Internal error/);
+  });
+});
@@ -0,0 +1,86 @@
+import { onAddToSpace, onRemoveFromSpace, onCardClick } from '../src/server/ChatBot';
+import { clearCardActions, getActionParameters, registerCardAction } from '../src/controllers/cardActions';
+import { getSpaceState, updateSpaceState } from '../src/store/spaceState';
+
+describe('ChatBot space lifecycle events', () => {
+  it('greets the space and records installation metadata on ADDED_TO_SPACE', async () => {
+    const res = await onAddToSpace({
+      type: 'ADDED_TO_SPACE',
+      eventTime: '2025-07-25T10:00:00Z',
+      space: { name: 'spaces/NEW', type: 'ROOM', displayName: 'Support' },
+      user: { name: 'users/1', displayName: 'Alice' },
+    });
+
+    expect(res.text).toMatch(/Thanks for installing Knowledge Assistant/);
+    expect(getSpaceState('spaces/NEW')).toEqual({
+      installedAt: '2025-07-25T10:00:00Z',
+      spaceType: 'ROOM',
+      displayName: 'Support',
+      installedBy: 'users/1',
+    });
+  });
+
+  it('personalises the welcome message in a DM', async () => {
+    const res = await onAddToSpace({
+      type: 'ADDED_TO_SPACE',
+      space: { name: 'spaces/DM1', type: 'DM' },
+      user: { name: 'users/2', displayName: 'Bob' },
+    });
+
+    expect(res.text).toMatch(/^Hi Bob! /);
+  });
+
+  it('clears per-space state on REMOVED_FROM_SPACE', async () => {
+    updateSpaceState('spaces/OLD', { installedAt: 'x' });
+
+    const res = await onRemoveFromSpace({ type: 'REMOVED_FROM_SPACE', space: { name: 'spaces/OLD' } });
+
+    expect(res).toEqual({});
+    expect(getSpaceState('spaces/OLD')).toEqual({});
+  });
+});
+
+describe('ChatBot card actions', () => {
+  afterEach(() => {
+    clearCardActions();
+  });
+
+  it('normalises both legacy and common parameter formats', () => {
+    expect(
+      getActionParameters({
+        action: { parameters: [{ key: 'a', value: '1' }] },
+        common: { parameters: { b: '2' } },
+      })
+    ).toEqual({ a: '1', b: '2' });
+  });
+
+  it('dispatches CARD_CLICKED events to the registered handler', async () => {
+    const handler = jest.fn().mockReturnValue({ text: 'thanks!' });
+    registerCardAction('markHelpful', handler);
+
+    const res = await onCardClick({
+      type: 'CARD_CLICKED',
+      action: { actionMethodName: 'markHelpful', parameters: [{ key: 'id', value: '42' }] },
+    });
+
+    expect(res).toEqual({ text: 'thanks!' });
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ parameters: { id: '42' } }));
+  });
+
+  it('rejects duplicate action registrations', () => {
+    registerCardAction('dup', () => ({}));
+    expect(() => registerCardAction('dup', () => ({}))).toThrow(/already registered/);
+  });
+
+  it('reports unknown and failing actions', async () => {
+    registerCardAction('boom', () => {
+      throw new Error('kaput');
+    });
+
+    const unknown = await onCardClick({ type: 'CARD_CLICKED', common: { invokedFunction: 'nope' } });
+    expect(unknown.text).toMatch(/Unknown action "nope"/);
+
+    const failed = await onCardClick({ type: 'CARD_CLICKED', action: { actionMethodName: 'boom' } });
+    expect(failed.text).toMatch(/action failed/);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  clearCommands,
+  findCommand,
+  listCommands,
+  normaliseCommandKey,
+  registerCommand,
+  runCommand,
+  supportsRuntime,
+} from '../src/controllers/commandRegistry';
+
+describe('commandRegistry', () => {
+  beforeEach(() => {
+    clearCommands();
+  });
+
+  it('normalises numeric ids, numeric strings and names onto stable keys', () => {
+    expect(normaliseCommandKey(2)).toBe('id:2');
+    expect(normaliseCommandKey('2')).toBe('id:2');
+    expect(normaliseCommandKey(' /Ping ')).toBe('name:ping');
+    expect(normaliseCommandKey('')).toBeUndefined();
+    expect(normaliseCommandKey(undefined)).toBeUndefined();
+    expect(normaliseCommandKey(NaN)).toBeUndefined();
+  });
+
+  it('resolves a command by numeric id, string id and name', () => {
+    const cmd = { id: 7, name: 'demo', handler: () => ({ text: 'ok' }) };
+    registerCommand(cmd);
+
+    expect(findCommand(7)).toBe(cmd);
+    expect(findCommand('7')).toBe(cmd);
+    expect(findCommand('demo')).toBe(cmd);
+    expect(findCommand(8)).toBeUndefined();
+    expect(listCommands()).toEqual([cmd]);
+  });
+
+  it('rejects duplicate ids and names', () => {
+    registerCommand({ id: 1, name: 'one', handler: () => ({}) });
+
+    expect(() => registerCommand({ id: 1, name: 'uno', handler: () => ({}) })).toThrow(/conflicts/);
+    expect(() => registerCommand({ name: 'ONE', handler: () => ({}) })).toThrow(/conflicts/);
+  });
+
+  it('passes parsed arguments and the event to the handler', async () => {
+    const handler = jest.fn().mockReturnValue({ text: 'done' });
+    registerCommand({
+      id: 3,
+      name: 'echo',
+      parseArgs: (text) => text.split(/\s+/).filter(Boolean),
+      handler,
+    });
+
+    const event = { message: { slashCommand: { commandId: '3' }, argumentText: ' a  b ' } };
+    const res = await runCommand(event);
+
+    expect(res).toEqual({ text: 'done' });
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ event, args: ['a', 'b'], runtime: 'node' })
+    );
+  });
+
+  it('replies with an error card when argument parsing throws', async () => {
+    const handler = jest.fn();
+    registerCommand({
+      id: 5,
+      name: 'strict',
+      parseArgs: () => {
+        throw new Error('Expected a number.');
+      },
+      handler,
+    });
+
+    const res = await runCommand({ message: { slashCommand: { commandId: 5 }, argumentText: 'x' } });
+
+    expect(res?.text).toMatch(/arguments for \/strict.*Expected a number\./);
+    expect((res as any)?.cardsV2?.[0].cardId).toBe('error');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('refuses to run commands that require another runtime', async () => {
+    const handler = jest.fn();
+    const cmd = { id: 4, name: 'gas-only', runtime: 'gas' as const, handler };
+    registerCommand(cmd);
+
+    expect(supportsRuntime(cmd, 'node')).toBe(false);
+    expect(supportsRuntime(cmd, 'gas')).toBe(true);
+
+    const res = await runCommand({ message: { slashCommand: { commandId: 4 } } });
+    expect(res?.text).toMatch(/not available/);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('returns undefined for unknown commands', async () => {
+    await expect(runCommand({ message: { slashCommand: { commandId: 99 } } })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { resolveContextPolicy, spaceOfThread } from '../src/llm/contextPolicy';
+
+describe('resolveContextPolicy', () => {
+  const KEYS = [
+    'CONTEXT_MAX_TOKENS',
+    'LLM_MAX_REPLY_TOKENS',
+    'CONTEXT_RECENT_MESSAGES',
+    'CONTEXT_ANCHOR_MESSAGES',
+    'CONTEXT_POLICY_OVERRIDES',
+  ];
+
+  afterEach(() => {
+    KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  it('caps the window at 4 096 tokens by default', () => {
+    expect(resolveContextPolicy({ provider: 'openai', modelId: 'gpt-4o-mini' })).toEqual({
+      maxTokens: 4096 - 1024,
+      maxReplyTokens: 1024,
+      recentMessages: 10,
+      anchorMessages: 1,
+    });
+  });
+
+  it("uses the model's whole context window when CONTEXT_MAX_TOKENS is 0", () => {
+    process.env.CONTEXT_MAX_TOKENS = '0';
+    expect(resolveContextPolicy({ provider: 'openai', modelId: 'gpt-4o-mini' })).toEqual({
+      maxTokens: 128_000 - 1024,
+      maxReplyTokens: 1024,
+      recentMessages: 10,
+      anchorMessages: 1,
+    });
+    expect(resolveContextPolicy({ provider: 'anthropic', modelId: 'claude-3-5-haiku-latest' }).maxTokens).toBe(
+      200_000 - 1024,
+    );
+    expect(resolveContextPolicy({ provider: 'gemini', modelId: 'gemini-1.0-pro' }).maxTokens).toBe(32_760 - 1024);
+  });
+
+  it('falls back to a 4 096-token window for unknown models', () => {
+    expect(resolveContextPolicy({ provider: 'openai-compatible', modelId: 'llama3' }).maxTokens).toBe(4096 - 1024);
+  });
+
+  it('applies config, then per-space overrides', () => {
+    process.env.CONTEXT_MAX_TOKENS = '8000';
+    process.env.LLM_MAX_REPLY_TOKENS = '500';
+    process.env.CONTEXT_RECENT_MESSAGES = '20';
+    process.env.CONTEXT_ANCHOR_MESSAGES = '2';
+    process.env.CONTEXT_POLICY_OVERRIDES = JSON.stringify({
+      'spaces/BIG': { maxContextTokens: 32_000, recentMessages: 50, anchorMessages: 'x' },
+      'spaces/FULL': { maxContextTokens: 0 },
+    });
+    const target = { provider: 'openai' as const, modelId: 'gpt-4o' };
+
+    expect(resolveContextPolicy(target, 'spaces/OTHER')).toEqual({
+      maxTokens: 7500,
+      maxReplyTokens: 500,
+      recentMessages: 20,
+      anchorMessages: 2,
+    });
+    expect(resolveContextPolicy(target, 'spaces/BIG')).toEqual({
+      maxTokens: 31_500,
+      maxReplyTokens: 500,
+      recentMessages: 50,
+      anchorMessages: 2,
+    });
+    expect(resolveContextPolicy(target, 'spaces/FULL').maxTokens).toBe(128_000 - 500);
+  });
+
+  it('never exceeds the model window and ignores malformed overrides', () => {
+    process.env.CONTEXT_MAX_TOKENS = '1000000';
+    process.env.CONTEXT_POLICY_OVERRIDES = '{not json';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(resolveContextPolicy({ provider: 'gemini', modelId: 'gemini-pro' }, 'spaces/A').maxTokens).toBe(
+      32_760 - 1024,
+    );
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('sizes a fallback chain for its smallest context window', () => {
+    process.env.CONTEXT_MAX_TOKENS = '0';
+    const chain = [
+      { provider: 'openai' as const, modelId: 'gpt-4o' },
+      { provider: 'openai-compatible' as const, modelId: 'llama3' },
+    ];
+    expect(resolveContextPolicy(chain).maxTokens).toBe(4096 - 1024);
+  });
+
+  it('warns when the reply tokens leave no room for the prompt', () => {
+    process.env.LLM_MAX_REPLY_TOKENS = '5000';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(resolveContextPolicy({ provider: 'openai-compatible' }, 'spaces/A').maxTokens).toBe(0);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Reply tokens fill the whole context window'));
+    warn.mockRestore();
+  });
+
+  it('maps thread names to their space', () => {
+    expect(spaceOfThread('spaces/AAA/threads/BBB')).toBe('spaces/AAA');
+  });
+});
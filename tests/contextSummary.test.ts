@@ -0,0 +1,131 @@
+import nock from 'nock';
+
+import { buildSummarisedContextWindow, ContextSummary } from '../src/llm/contextSummary';
+import { selectContextIndices } from '../src/llm/contextWindow';
+import { clearSummaryCache } from '../src/store/summaryCache';
+
+interface TestMsg {
+  name: string;
+  text: string;
+  sender?: { displayName: string };
+}
+
+const msg = (i: number, text: string): TestMsg => ({
+  name: `spaces/A/messages/${i}`,
+  text,
+  sender: { displayName: `User${i}` },
+});
+
+/** First message, the middle messages and the latest 10 – 2 words each, bar the middle. */
+function thread(middle: string[]): TestMsg[] {
+  return [
+    msg(0, 'original question'),
+    ...middle.map((text, i) => msg(i + 1, text)),
+    ...Array.from({ length: 10 }, (_, i) => msg(100 + i, `latest ${i}`)),
+  ];
+}
+
+const MIDDLE = [
+  'hello there everyone',
+  'we decided to roll back the release',
+  'thanks',
+  'the root cause is a missing index',
+  'ok cool',
+  'lots of chatter about the weekend plans and the weather today',
+];
+
+describe('buildSummarisedContextWindow', () => {
+  afterEach(() => {
+    clearSummaryCache();
+    nock.cleanAll();
+    delete process.env.CONTEXT_SUMMARY;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('prunes as usual when no strategy is configured', async () => {
+    const full = thread(MIDDLE);
+    const result = await buildSummarisedContextWindow(full, 22);
+
+    expect(result).toEqual([full[0], ...full.slice(-10)]);
+    expect(selectContextIndices(full, 22)).toEqual([0, ...Array.from({ length: 10 }, (_, i) => 7 + i)]);
+  });
+
+  it('returns everything untouched when it fits', async () => {
+    const full = thread(MIDDLE);
+    expect(await buildSummarisedContextWindow(full, 1000, { strategy: 'extractive' })).toEqual(full);
+  });
+
+  it('replaces the pruned span with an extractive summary in chronological position', async () => {
+    process.env.CONTEXT_SUMMARY = 'extractive';
+    const full = thread(MIDDLE);
+
+    const result = await buildSummarisedContextWindow(full, 45, { summaryTokens: 23 });
+    const summary = result[1] as ContextSummary;
+
+    expect(result[0]).toBe(full[0]);
+    expect(result.slice(2)).toEqual(full.slice(-10));
+    expect(summary).toMatchObject({ isSummary: true, summarisedCount: 6 });
+    // Key facts win the limited room and keep their original order.
+    expect(summary.text).toBe(
+      'Summary of 6 earlier messages:\n' +
+        '- User2: we decided to roll back the release\n' +
+        '- User4: the root cause is a missing index',
+    );
+  });
+
+  it('summarises with the LLM and caches the result per thread and range', async () => {
+    process.env.OPENAI_API_KEY = 'key';
+    let transcript = '';
+    const scope = nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        transcript = body.messages[1].content;
+        return true;
+      })
+      .once()
+      .reply(200, { choices: [{ message: { content: '- Release rolled back.' } }] });
+
+    const full = thread(MIDDLE);
+    const opts = { strategy: 'llm' as const, threadName: 'spaces/A/threads/T', summaryTokens: 18 };
+
+    const first = await buildSummarisedContextWindow(full, 40, opts);
+    const second = await buildSummarisedContextWindow(full, 40, opts);
+
+    expect(scope.isDone()).toBe(true);
+    expect(transcript).toContain('User2: we decided to roll back the release');
+    expect((first[1] as ContextSummary).text).toBe('Summary of 6 earlier messages:\n- Release rolled back.');
+    expect(second).toEqual(first);
+  });
+
+  it('falls back to an extractive summary without caching it when the LLM fails', async () => {
+    process.env.OPENAI_API_KEY = 'key';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(400, {});
+
+    const full = thread(MIDDLE);
+    const opts = { strategy: 'llm' as const, threadName: 'spaces/A/threads/T', summaryTokens: 18 };
+    const result = await buildSummarisedContextWindow(full, 40, opts);
+
+    expect((result[1] as ContextSummary).text).toContain('we decided to roll back the release');
+
+    // Next call retries the LLM.
+    const retry = nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, { choices: [{ message: { content: '- Rolled back.' } }] });
+    await buildSummarisedContextWindow(full, 40, opts);
+    expect(retry.isDone()).toBe(true);
+
+    warn.mockRestore();
+  });
+  it('places the summary after every anchor message', async () => {
+    const full = thread(MIDDLE);
+    const result = await buildSummarisedContextWindow(
+      full,
+      { maxTokens: 45, anchorMessages: 2 },
+      { strategy: 'extractive', summaryTokens: 14 },
+    );
+
+    expect(result.slice(0, 2)).toEqual(full.slice(0, 2));
+    expect(result[2]).toMatchObject({ isSummary: true, summarisedCount: 5 });
+    expect(result.slice(3)).toEqual(full.slice(-10));
+  });
+});
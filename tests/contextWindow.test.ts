@@ -63,4 +63,36 @@ describe('buildContextWindow', () => {
     const result = buildContextWindow(msgs, Infinity);
     expect(result).toEqual(msgs);
   });
+
+  it('uses the caller-supplied token cost', () => {
+    const first = makeMsg('first');
+    const middle = makeMsg('https://example.com/a/very/long/url');
+    const latest = makeMsg('latest');
+
+    // One "word" each, but the URL costs far more under a real tokenizer.
+    const tokenCost = (m: TestMsg) => (m.text.startsWith('http') ? 20 : 2);
+    const full = [first, middle, ...Array.from({ length: 10 }, () => latest)];
+
+    expect(buildContextWindow(full, 30)).toEqual(full);
+    expect(buildContextWindow(full, 30, { tokenCost })).toEqual([first, ...full.slice(2)]);
+  });
+
+  it('honours the recent and anchor counts of a policy', () => {
+    const full = Array.from({ length: 8 }, (_, i) => makeMsg(`m${i}`)); // 1 token each
+
+    expect(buildContextWindow(full, { maxTokens: 5, recentMessages: 3, anchorMessages: 2 })).toEqual([
+      full[0],
+      full[1],
+      full[5],
+      full[6],
+      full[7],
+    ]);
+    // Recent messages go next; anchors stay even when nothing else fits.
+    expect(buildContextWindow(full, { maxTokens: 3, recentMessages: 3, anchorMessages: 2 })).toEqual([
+      full[0],
+      full[1],
+      full[7],
+    ]);
+    expect(buildContextWindow(full, { maxTokens: 1, anchorMessages: 2 })).toEqual([full[0], full[1]]);
+  });
 });
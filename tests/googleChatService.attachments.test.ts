@@ -0,0 +1,70 @@
+import nock from 'nock';
+
+import { downloadAttachment, getAttachment } from '../src/services/GoogleChatService';
+
+describe('GoogleChatService attachments', () => {
+  const basePath = 'https://chat.googleapis.com';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it('fetches attachment metadata', async () => {
+    nock(basePath)
+      .get('/v1/spaces/AAA/messages/M/attachments/1')
+      .reply(200, {
+        name: 'spaces/AAA/messages/M/attachments/1',
+        contentName: 'error.log',
+        attachmentDataRef: { resourceName: 'RES1' },
+      });
+
+    const attachment = await getAttachment('spaces/AAA/messages/M/attachments/1');
+
+    expect(attachment.contentName).toBe('error.log');
+    expect(attachment.attachmentDataRef?.resourceName).toBe('RES1');
+  });
+
+  it('downloads media as bytes', async () => {
+    nock(basePath)
+      .get('/v1/media/RES1')
+      .query({ alt: 'media' })
+      .matchHeader('authorization', 'Bearer token')
+      .reply(200, Buffer.from('log line'), { 'Content-Type': 'text/plain' });
+
+    const media = await downloadAttachment('RES1');
+
+    expect(Buffer.from(media.bytes).toString()).toBe('log line');
+    expect(media.contentType).toBe('text/plain');
+  });
+
+  it('reports failed downloads', async () => {
+    nock(basePath).get('/v1/media/GONE').query(true).reply(404, 'missing');
+
+    await expect(downloadAttachment('GONE')).rejects.toThrow(/HTTP 404/);
+  });
+
+  it('reads binary content through UrlFetchApp', async () => {
+    const fetchMock = jest.fn().mockReturnValue({
+      getResponseCode: () => 200,
+      getContent: () => [104, 105, -1],
+      getHeaders: () => ({ 'Content-Type': 'application/octet-stream' }),
+    });
+    (globalThis as any).UrlFetchApp = { fetch: fetchMock };
+    (globalThis as any).ScriptApp = { getOAuthToken: () => 'gas-token' };
+
+    try {
+      const media = await downloadAttachment('RES1');
+
+      expect(Array.from(media.bytes)).toEqual([104, 105, 255]);
+      expect(media.contentType).toBe('application/octet-stream');
+      expect(fetchMock.mock.calls[0][0]).toBe('https://chat.googleapis.com/v1/media/RES1?alt=media');
+    } finally {
+      delete (globalThis as any).UrlFetchApp;
+      delete (globalThis as any).ScriptApp;
+    }
+  });
+});
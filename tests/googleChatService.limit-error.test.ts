@@ -12,6 +12,7 @@ describe('getThreadMessages – limit & error branches', () => {
 
   afterEach(() => {
     nock.cleanAll();
+    delete process.env.CHAT_API_MAX_RETRIES;
   });
 
   it('respects the `limit` parameter and uses DESC ordering', async () => {
@@ -43,6 +44,8 @@ describe('getThreadMessages – limit & error branches', () => {
   });
 
   it('throws helpful error on non-200 API response', async () => {
+    process.env.CHAT_API_MAX_RETRIES = '0';
+
     nock(basePath)
       .get(threadPath)
       .query(true)
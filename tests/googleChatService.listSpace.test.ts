@@ -0,0 +1,88 @@
+import nock from 'nock';
+
+import { buildMessageFilter, listSpaceMessages } from '../src/services/GoogleChatService';
+
+describe('listSpaceMessages', () => {
+  const basePath = 'https://chat.googleapis.com';
+  const spacePath = '/v1/spaces/AAA/messages';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.AI_BOT_USER_ID;
+  });
+
+  it('builds createTime / thread.name filter clauses', () => {
+    expect(buildMessageFilter()).toBe('');
+    expect(
+      buildMessageFilter({
+        since: new Date('2025-07-01T00:00:00Z'),
+        until: '2025-07-02T00:00:00Z',
+        threadName: 'spaces/AAA/threads/T1',
+        filter: ' custom ',
+      })
+    ).toBe(
+      'createTime > "2025-07-01T00:00:00.000Z" AND createTime < "2025-07-02T00:00:00.000Z"' +
+        ' AND thread.name = spaces/AAA/threads/T1 AND custom'
+    );
+    expect(() => buildMessageFilter({ since: 'not a date' })).toThrow(/Invalid timestamp/);
+  });
+
+  it('pages through the space and groups messages by thread', async () => {
+    process.env.AI_BOT_USER_ID = 'users/BOT';
+
+    const scope = nock(basePath)
+      .get(spacePath)
+      .query({ pageSize: '100', filter: 'createTime > "2025-07-01T00:00:00.000Z"' })
+      .reply(200, {
+        messages: [
+          { name: 'm3', thread: { name: 'spaces/AAA/threads/T1' }, createTime: '2025-07-25T12:00:00Z' },
+          { name: 'm1', thread: { name: 'spaces/AAA/threads/T1' }, createTime: '2025-07-25T10:00:00Z' },
+        ],
+        nextPageToken: 'P2',
+      })
+      .get(spacePath)
+      .query((q) => q.pageToken === 'P2')
+      .reply(200, {
+        messages: [
+          {
+            name: 'm2',
+            thread: { name: 'spaces/AAA/threads/T2' },
+            createTime: '2025-07-25T11:00:00Z',
+            sender: { name: 'users/BOT' },
+          },
+        ],
+      });
+
+    const threads = await listSpaceMessages('spaces/AAA', { since: '2025-07-01T00:00:00Z' });
+
+    scope.done();
+    expect(threads.map((t) => t.threadName)).toEqual(['spaces/AAA/threads/T1', 'spaces/AAA/threads/T2']);
+    expect(threads[0].messages.map((m) => m.name)).toEqual(['m1', 'm3']);
+    expect(threads[1].messages[0].isAiBot).toBe(true);
+  });
+
+  it('honours limit with newest-first paging and omits an empty filter', async () => {
+    const scope = nock(basePath)
+      .get(spacePath)
+      .query({ pageSize: '1', orderBy: 'DESC' })
+      .reply(200, {
+        messages: [{ name: 'm9', createTime: '2025-07-25T12:00:00Z' }],
+        nextPageToken: 'ignored',
+      });
+
+    const threads = await listSpaceMessages('spaces/AAA', { limit: 1 });
+
+    scope.done();
+    expect(threads).toEqual([{ threadName: '', messages: [expect.objectContaining({ name: 'm9' })] }]);
+  });
+
+  it('reports API errors with the operation name', async () => {
+    nock(basePath).get(spacePath).query(true).reply(403, { error: 'forbidden' });
+
+    await expect(listSpaceMessages('spaces/AAA')).rejects.toThrow(/HTTP 403/);
+  });
+});
@@ -0,0 +1,149 @@
+import nock from 'nock';
+
+import { createMessage, deleteMessage, getThreadMessages } from '../src/services/GoogleChatService';
+import { clearThreadCache } from '../src/store/threadCache';
+import { parseRetryAfter } from '../src/utils/http';
+
+describe('GoogleChatService retries', () => {
+  const basePath = 'https://chat.googleapis.com';
+  const threadPath = '/v1/spaces/AAA/threads/BBB/messages';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+    process.env.CHAT_API_RETRY_BASE_MS = '1';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    clearThreadCache();
+    delete process.env.CHAT_API_RETRY_BASE_MS;
+    delete process.env.CHAT_API_MAX_RETRIES;
+    delete process.env.CHAT_API_MAX_RETRY_MS;
+    delete process.env.CHAT_API_TIMEOUT_MS;
+  });
+
+  it('retries a failed page without refetching earlier pages', async () => {
+    const scope = nock(basePath)
+      .get(threadPath)
+      .query((q) => !q.pageToken)
+      .once()
+      .reply(200, {
+        messages: [{ name: 'm1', text: 'one', createTime: '2025-07-25T10:00:00Z' }],
+        nextPageToken: 'P2',
+      })
+      .get(threadPath)
+      .query((q) => q.pageToken === 'P2')
+      .reply(503, { error: 'unavailable' }, { 'Retry-After': '0' })
+      .get(threadPath)
+      .query((q) => q.pageToken === 'P2')
+      .reply(429, { error: 'slow down' })
+      .get(threadPath)
+      .query((q) => q.pageToken === 'P2')
+      .reply(200, {
+        messages: [{ name: 'm2', text: 'two', createTime: '2025-07-25T11:00:00Z' }],
+      });
+
+    const msgs = await getThreadMessages('spaces/AAA/threads/BBB');
+
+    scope.done();
+    expect(msgs.map((m) => m.text)).toEqual(['one', 'two']);
+  });
+
+  it('stops after CHAT_API_MAX_RETRIES retries', async () => {
+    process.env.CHAT_API_MAX_RETRIES = '1';
+
+    const scope = nock(basePath).get(threadPath).query(true).times(2).reply(500, {});
+
+    await expect(getThreadMessages('spaces/AAA/threads/BBB')).rejects.toThrow(/HTTP 500/);
+    scope.done();
+  });
+
+  it('gives up when Retry-After exceeds the remaining retry budget', async () => {
+    process.env.CHAT_API_MAX_RETRY_MS = '1000';
+
+    const scope = nock(basePath)
+      .get(threadPath)
+      .query(true)
+      .reply(429, {}, { 'Retry-After': '120' });
+
+    await expect(getThreadMessages('spaces/AAA/threads/BBB')).rejects.toThrow(/HTTP 429/);
+    scope.done();
+    expect(nock.pendingMocks()).toHaveLength(0);
+  });
+
+  it('retries message posts on 429 but not on 5xx', async () => {
+    const ok = nock(basePath)
+      .post('/v1/spaces/AAA/messages')
+      .reply(429, {})
+      .post('/v1/spaces/AAA/messages')
+      .reply(200, { name: 'spaces/AAA/messages/1' });
+
+    await expect(createMessage('spaces/AAA', { text: 'x' })).resolves.toMatchObject({
+      name: 'spaces/AAA/messages/1',
+    });
+    ok.done();
+
+    nock(basePath).post('/v1/spaces/AAA/messages').reply(500, {});
+    await expect(createMessage('spaces/AAA', { text: 'x' })).rejects.toThrow(/HTTP 500/);
+  });
+
+  it('retries idempotent writes on 5xx', async () => {
+    const scope = nock(basePath)
+      .delete('/v1/spaces/AAA/messages/1')
+      .reply(502, {})
+      .delete('/v1/spaces/AAA/messages/1')
+      .reply(200, {});
+
+    await expect(deleteMessage('spaces/AAA/messages/1')).resolves.toBeUndefined();
+    scope.done();
+  });
+
+  it('gives up on a request that exceeds CHAT_API_TIMEOUT_MS', async () => {
+    process.env.CHAT_API_TIMEOUT_MS = '50';
+    nock(basePath).delete('/v1/spaces/AAA/messages/M').delay(500).reply(200, {});
+
+    await expect(deleteMessage('spaces/AAA/messages/M')).rejects.toThrow(/timeout/i);
+  });
+
+  it('sleeps with Utilities.sleep under Apps Script', async () => {
+    const sleepMock = jest.fn();
+    const fetchMock = jest
+      .fn()
+      .mockReturnValueOnce({
+        getResponseCode: () => 429,
+        getContentText: () => '{}',
+        getHeaders: () => ({ 'Retry-After': '2' }),
+      })
+      .mockReturnValueOnce({
+        getResponseCode: () => 200,
+        getContentText: () => JSON.stringify({ messages: [] }),
+        getHeaders: () => ({}),
+      });
+
+    (globalThis as any).UrlFetchApp = { fetch: fetchMock };
+    (globalThis as any).ScriptApp = { getOAuthToken: () => 'gas-token' };
+    (globalThis as any).Utilities = { sleep: sleepMock };
+
+    try {
+      await expect(getThreadMessages('spaces/AAA/threads/BBB')).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(sleepMock).toHaveBeenCalledWith(2000);
+    } finally {
+      delete (globalThis as any).UrlFetchApp;
+      delete (globalThis as any).ScriptApp;
+      delete (globalThis as any).Utilities;
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts delta-seconds and HTTP dates', () => {
+    const now = Date.parse('2025-07-25T10:00:00Z');
+
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Fri, 25 Jul 2025 10:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Fri, 25 Jul 2025 09:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { classifySender } from '../src/services/GoogleChatService';
+
+describe('classifySender', () => {
+  afterEach(() => {
+    delete process.env.AI_BOT_USER_ID;
+    delete process.env.AI_BOT_USER_IDS;
+    delete process.env.AI_BOT_DISPLAY_NAME;
+  });
+
+  it('recognises every configured app identity, with or without the users/ prefix', () => {
+    process.env.AI_BOT_USER_ID = 'users/LEGACY';
+    process.env.AI_BOT_USER_IDS = 'users/PROD, STAGING';
+
+    expect(classifySender({ name: 'users/LEGACY', type: 'BOT' })).toBe('assistant');
+    expect(classifySender({ name: 'users/PROD', type: 'BOT' })).toBe('assistant');
+    expect(classifySender({ name: 'users/STAGING', type: 'BOT' })).toBe('assistant');
+  });
+
+  it('treats unknown BOT senders as other apps and everyone else as human', () => {
+    process.env.AI_BOT_USER_IDS = 'users/PROD';
+
+    expect(classifySender({ name: 'users/JIRA', type: 'BOT' })).toBe('bot');
+    expect(classifySender({ name: 'users/42', type: 'HUMAN' })).toBe('human');
+    expect(classifySender(undefined)).toBe('human');
+  });
+
+  it('falls back to the configured display name', () => {
+    process.env.AI_BOT_DISPLAY_NAME = 'Knowledge Bot';
+
+    expect(classifySender({ name: 'users/X', displayName: 'Knowledge Bot', type: 'BOT' })).toBe('assistant');
+  });
+});
@@ -0,0 +1,62 @@
+import nock from 'nock';
+
+import { getSpace, listMembers, listSpaces } from '../src/services/GoogleChatService';
+
+describe('GoogleChatService spaces & memberships', () => {
+  const basePath = 'https://chat.googleapis.com';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it('fetches a single space', async () => {
+    nock(basePath)
+      .get('/v1/spaces/AAA')
+      .matchHeader('authorization', 'Bearer token')
+      .reply(200, { name: 'spaces/AAA', displayName: 'Support', spaceType: 'SPACE' });
+
+    await expect(getSpace('spaces/AAA')).resolves.toMatchObject({ displayName: 'Support' });
+  });
+
+  it('pages through listSpaces and forwards the filter', async () => {
+    const scope = nock(basePath)
+      .get('/v1/spaces')
+      .query({ pageSize: '100', filter: 'spaceType = "SPACE"' })
+      .reply(200, { spaces: [{ name: 'spaces/A' }], nextPageToken: 'P2' })
+      .get('/v1/spaces')
+      .query({ pageSize: '100', filter: 'spaceType = "SPACE"', pageToken: 'P2' })
+      .reply(200, { spaces: [{ name: 'spaces/B' }] });
+
+    const spaces = await listSpaces({ filter: 'spaceType = "SPACE"' });
+
+    scope.done();
+    expect(spaces.map((s) => s.name)).toEqual(['spaces/A', 'spaces/B']);
+  });
+
+  it('lists members of a space', async () => {
+    nock(basePath)
+      .get('/v1/spaces/AAA/members')
+      .query({ pageSize: '100' })
+      .reply(200, {
+        memberships: [
+          { name: 'spaces/AAA/members/1', member: { name: 'users/1', displayName: 'Ada', type: 'HUMAN' } },
+        ],
+      });
+
+    const members = await listMembers('spaces/AAA');
+
+    expect(members[0].member?.displayName).toBe('Ada');
+  });
+
+  it('handles empty pages and surfaces HTTP errors', async () => {
+    nock(basePath).get('/v1/spaces/AAA/members').query(true).reply(200, {});
+    await expect(listMembers('spaces/AAA')).resolves.toEqual([]);
+
+    nock(basePath).get('/v1/spaces/ZZZ').reply(404, { error: 'not found' });
+    await expect(getSpace('spaces/ZZZ')).rejects.toThrow(/HTTP 404/);
+  });
+});
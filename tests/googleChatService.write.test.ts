@@ -0,0 +1,141 @@
+import nock from 'nock';
+
+import { createMessage, deleteMessage, updateMessage } from '../src/services/GoogleChatService';
+
+describe('GoogleChatService write operations', () => {
+  const basePath = 'https://chat.googleapis.com';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.AI_BOT_USER_ID;
+  });
+
+  describe('Node (axios) transport', () => {
+    it('creates a threaded reply and flags bot senders', async () => {
+      process.env.AI_BOT_USER_ID = 'users/BOT';
+
+      const scope = nock(basePath)
+        .post('/v1/spaces/AAA/messages', {
+          text: 'hello',
+          thread: { name: 'spaces/AAA/threads/BBB' },
+        })
+        .query({ messageReplyOption: 'REPLY_MESSAGE_OR_FAIL' })
+        .reply(200, { name: 'spaces/AAA/messages/1', sender: { name: 'users/BOT' } });
+
+      const msg = await createMessage('spaces/AAA', {
+        text: 'hello',
+        thread: { name: 'spaces/AAA/threads/BBB' },
+        messageReplyOption: 'REPLY_MESSAGE_OR_FAIL',
+      });
+
+      scope.done();
+      expect(msg.name).toBe('spaces/AAA/messages/1');
+      expect(msg.isAiBot).toBe(true);
+    });
+
+    it('throws a descriptive error for non-2xx responses', async () => {
+      nock(basePath).post('/v1/spaces/AAA/messages').reply(403, { error: 'nope' });
+
+      await expect(createMessage('spaces/AAA', { text: 'x' })).rejects.toThrow(/HTTP 403/);
+    });
+
+    it('patches a message using an update mask derived from the patch', async () => {
+      const scope = nock(basePath)
+        .patch('/v1/spaces/AAA/messages/1', { text: 'edited', cardsV2: [] })
+        .query({ updateMask: 'text,cardsV2' })
+        .reply(200, { name: 'spaces/AAA/messages/1', text: 'edited' });
+
+      const msg = await updateMessage('spaces/AAA/messages/1', { text: 'edited', cardsV2: [] });
+
+      scope.done();
+      expect(msg.text).toBe('edited');
+      expect(msg.isAiBot).toBe(false);
+    });
+
+    it('honours an explicit update mask and rejects empty ones', async () => {
+      const scope = nock(basePath)
+        .patch('/v1/spaces/AAA/messages/1')
+        .query({ updateMask: 'text' })
+        .reply(200, { name: 'spaces/AAA/messages/1' });
+
+      await updateMessage('spaces/AAA/messages/1', { text: 'x', fallbackText: 'y' }, ['text']);
+      scope.done();
+
+      await expect(updateMessage('spaces/AAA/messages/1', {})).rejects.toThrow(/updateMask/);
+    });
+
+    it('deletes a message and reports failures', async () => {
+      const scope = nock(basePath).delete('/v1/spaces/AAA/messages/1').reply(200, {});
+      await expect(deleteMessage('spaces/AAA/messages/1')).resolves.toBeUndefined();
+      scope.done();
+
+      nock(basePath).delete('/v1/spaces/AAA/messages/2').reply(404, { error: 'missing' });
+      await expect(deleteMessage('spaces/AAA/messages/2')).rejects.toThrow(/HTTP 404/);
+    });
+  });
+
+  describe('Apps Script (UrlFetchApp) transport', () => {
+    const fetchMock = jest.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      (globalThis as any).UrlFetchApp = { fetch: fetchMock };
+      (globalThis as any).ScriptApp = { getOAuthToken: () => 'gas-token' };
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).UrlFetchApp;
+      delete (globalThis as any).ScriptApp;
+    });
+
+    it('sends a JSON payload with the project OAuth token', async () => {
+      fetchMock.mockReturnValue({
+        getResponseCode: () => 200,
+        getContentText: () => JSON.stringify({ name: 'spaces/AAA/messages/9' }),
+      });
+
+      const msg = await createMessage('spaces/AAA', { text: 'from gas' });
+
+      expect(msg.name).toBe('spaces/AAA/messages/9');
+      const [url, params] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://chat.googleapis.com/v1/spaces/AAA/messages');
+      expect(params).toMatchObject({
+        method: 'post',
+        contentType: 'application/json',
+        payload: JSON.stringify({ text: 'from gas' }),
+        headers: { Authorization: 'Bearer gas-token' },
+        muteHttpExceptions: true,
+      });
+    });
+
+    it('supports update and delete through UrlFetchApp', async () => {
+      fetchMock.mockReturnValue({
+        getResponseCode: () => 200,
+        getContentText: () => JSON.stringify({ name: 'spaces/AAA/messages/9', text: 'new' }),
+      });
+
+      await updateMessage('spaces/AAA/messages/9', { text: 'new' });
+      await deleteMessage('spaces/AAA/messages/9');
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://chat.googleapis.com/v1/spaces/AAA/messages/9?updateMask=text'
+      );
+      expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'patch', payload: '{"text":"new"}' });
+      expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'delete' });
+      expect(fetchMock.mock.calls[1][1]).not.toHaveProperty('payload');
+    });
+
+    it('surfaces non-JSON error bodies as HTTP errors', async () => {
+      fetchMock.mockReturnValue({
+        getResponseCode: () => 502,
+        getContentText: () => 'Bad Gateway',
+      });
+
+      await expect(createMessage('spaces/AAA', { text: 'x' })).rejects.toThrow(/HTTP 502/);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nock from 'nock';
+
+import {
+  clearCredentialCache,
+  createJwtAssertion,
+  getChatAccessToken,
+} from '../src/services/GoogleCredentials';
+
+describe('GoogleCredentials', () => {
+  const tokenHost = 'http://token.local.test';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const serviceAccount = {
+    type: 'service_account',
+    client_email: 'bot@project.iam.gserviceaccount.com',
+    private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    private_key_id: 'kid-1',
+  };
+
+  const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString());
+
+  beforeEach(() => {
+    clearCredentialCache();
+    delete process.env.GOOGLE_CHAT_ACCESS_TOKEN;
+    process.env.GOOGLE_OAUTH_TOKEN_URL = `${tokenHost}/token`;
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.GOOGLE_OAUTH_TOKEN_URL;
+    delete process.env.GOOGLE_SERVICE_ACCOUNT_KEY;
+    delete process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    delete process.env.GCE_METADATA_HOST;
+    delete process.env.CHAT_API_SCOPES;
+  });
+
+  it('prefers ScriptApp and then a pre-minted token', async () => {
+    (globalThis as any).ScriptApp = { getOAuthToken: () => 'gas-token' };
+    try {
+      await expect(getChatAccessToken()).resolves.toBe('gas-token');
+    } finally {
+      delete (globalThis as any).ScriptApp;
+    }
+
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'static';
+    await expect(getChatAccessToken()).resolves.toBe('static');
+  });
+
+  it('signs a verifiable RS256 assertion', () => {
+    process.env.CHAT_API_SCOPES = 'scope-a, scope-b';
+    const jwt = createJwtAssertion(serviceAccount as any, 'https://aud', 1_700_000_000_000);
+    const [header, claims, signature] = jwt.split('.');
+
+    expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'kid-1' });
+    expect(decode(claims)).toEqual({
+      iss: serviceAccount.client_email,
+      scope: 'scope-a scope-b',
+      aud: 'https://aud',
+      iat: 1_700_000_000,
+      exp: 1_700_003_600,
+    });
+    const valid = crypto
+      .createVerify('RSA-SHA256')
+      .update(`${header}.${claims}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'));
+    expect(valid).toBe(true);
+  });
+
+  it('exchanges a service-account JWT and caches the token', async () => {
+    process.env.GOOGLE_SERVICE_ACCOUNT_KEY = JSON.stringify(serviceAccount);
+
+    let form: URLSearchParams | undefined;
+    const scope = nock(tokenHost)
+      .post('/token', (body) => {
+        form = new URLSearchParams(body);
+        return true;
+      })
+      .once()
+      .reply(200, { access_token: 'minted', expires_in: 3600 });
+
+    const [a, b] = await Promise.all([getChatAccessToken(), getChatAccessToken()]);
+    await expect(getChatAccessToken()).resolves.toBe('minted');
+
+    scope.done();
+    expect([a, b]).toEqual(['minted', 'minted']);
+    expect(form?.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    expect(decode(form!.get('assertion')!.split('.')[1]).aud).toBe(`${tokenHost}/token`);
+  });
+
+  it('refreshes tokens that are about to expire', async () => {
+    process.env.GOOGLE_SERVICE_ACCOUNT_KEY = JSON.stringify(serviceAccount);
+
+    nock(tokenHost)
+      .post('/token')
+      .reply(200, { access_token: 'short', expires_in: 60 })
+      .post('/token')
+      .reply(200, { access_token: 'fresh', expires_in: 3600 });
+
+    await expect(getChatAccessToken()).resolves.toBe('short');
+    await expect(getChatAccessToken()).resolves.toBe('fresh');
+  });
+
+  it('uses an authorized_user ADC file with the refresh-token grant', async () => {
+    const file = path.join(os.tmpdir(), `adc-${process.pid}.json`);
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ type: 'authorized_user', client_id: 'cid', client_secret: 'sec', refresh_token: 'rt' })
+    );
+    process.env.GOOGLE_APPLICATION_CREDENTIALS = file;
+
+    nock(tokenHost)
+      .post('/token', (body) => new URLSearchParams(body).get('refresh_token') === 'rt')
+      .reply(200, { access_token: 'user-token', expires_in: 3600 });
+
+    try {
+      await expect(getChatAccessToken()).resolves.toBe('user-token');
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it('falls back to the metadata server on Google Cloud', async () => {
+    process.env.GCE_METADATA_HOST = 'metadata.local.test';
+
+    nock('http://metadata.local.test')
+      .get('/computeMetadata/v1/instance/service-accounts/default/token')
+      .query({ scopes: 'https://www.googleapis.com/auth/chat.bot' })
+      .matchHeader('metadata-flavor', 'Google')
+      .reply(200, { access_token: 'gce-token', expires_in: 3599 });
+
+    await expect(getChatAccessToken()).resolves.toBe('gce-token');
+  });
+
+  it('reports missing, malformed and rejected credentials', async () => {
+    await expect(getChatAccessToken()).rejects.toThrow(/No Google Chat credentials configured/);
+
+    process.env.GOOGLE_SERVICE_ACCOUNT_KEY = 'not json';
+    await expect(getChatAccessToken()).rejects.toThrow(/not valid JSON/);
+
+    process.env.GOOGLE_SERVICE_ACCOUNT_KEY = JSON.stringify({ type: 'external_account' });
+    await expect(getChatAccessToken()).rejects.toThrow(/Unsupported credential type/);
+
+    process.env.GOOGLE_SERVICE_ACCOUNT_KEY = JSON.stringify(serviceAccount);
+    nock(tokenHost).post('/token').reply(400, { error: 'invalid_grant' });
+    await expect(getChatAccessToken()).rejects.toThrow(/token endpoint returned HTTP 400/);
+  });
+});
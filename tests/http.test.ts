@@ -0,0 +1,248 @@
+import nock from 'nock';
+
+import {
+  addHttpHook,
+  fetchAdapter,
+  getHttpAdapter,
+  httpError,
+  HttpAdapter,
+  HttpRequest,
+  isRetryableStatus,
+  nodeAdapter,
+  readStreamText,
+  request,
+  requestStream,
+  setHttpAdapter,
+} from '../src/utils/http';
+
+describe('http transport', () => {
+  const host = 'https://api.example.test';
+
+  afterEach(() => {
+    nock.cleanAll();
+    setHttpAdapter(null);
+    delete process.env.HTTP_LOG_REQUESTS;
+  });
+
+  describe('node adapter', () => {
+    it('sends JSON and parses JSON responses with lower-cased headers', async () => {
+      nock(host)
+        .post('/items', { a: 1 })
+        .matchHeader('content-type', 'application/json')
+        .reply(201, { id: 7 }, { 'X-Trace': 'abc' });
+
+      const res = await request<{ id: number }>({ method: 'post', url: `${host}/items`, json: { a: 1 } });
+
+      expect(res).toMatchObject({ status: 201, data: { id: 7 } });
+      expect(res.headers['x-trace']).toBe('abc');
+    });
+
+    it('sends form bodies and supports text / binary responses', async () => {
+      nock(host)
+        .post('/token', 'a=1&b=two')
+        .matchHeader('content-type', 'application/x-www-form-urlencoded')
+        .reply(200, '{"not":"parsed"}')
+        .get('/blob')
+        .reply(200, Buffer.from([1, 2, 3]))
+        .get('/plain')
+        .reply(500, 'oops');
+
+      const text = await request({ method: 'post', url: `${host}/token`, form: { a: '1', b: 'two' }, responseType: 'text' });
+      expect(text.data).toBe('{"not":"parsed"}');
+
+      const bin = await request<Uint8Array>({ method: 'get', url: `${host}/blob`, responseType: 'binary' });
+      expect(Array.from(bin.data)).toEqual([1, 2, 3]);
+
+      const err = await request({ method: 'get', url: `${host}/plain` });
+      expect(err).toMatchObject({ status: 500, data: 'oops' });
+    });
+
+    it('rejects when the timeout elapses', async () => {
+      nock(host).get('/slow').delay(200).reply(200, {});
+
+      await expect(nodeAdapter.send({ method: 'get', url: `${host}/slow`, timeoutMs: 20 })).rejects.toThrow();
+    });
+  });
+
+  describe('adapter selection', () => {
+    it('prefers UrlFetchApp when present and honours overrides', () => {
+      expect(getHttpAdapter().name).toBe('node');
+
+      (globalThis as any).UrlFetchApp = { fetch: jest.fn() };
+      try {
+        expect(getHttpAdapter().name).toBe('gas');
+      } finally {
+        delete (globalThis as any).UrlFetchApp;
+      }
+
+      const fake: HttpAdapter = { name: 'fake', send: jest.fn() };
+      setHttpAdapter(fake);
+      expect(getHttpAdapter()).toBe(fake);
+    });
+
+    it('passes form bodies and parses text through UrlFetchApp', async () => {
+      const fetchMock = jest.fn().mockReturnValue({
+        getResponseCode: () => 200,
+        getContentText: () => 'plain',
+      });
+      (globalThis as any).UrlFetchApp = { fetch: fetchMock };
+
+      try {
+        const res = await request({ method: 'post', url: `${host}/f`, form: { x: 'y' } });
+        expect(res).toEqual({ status: 200, headers: {}, data: 'plain' });
+        expect(fetchMock.mock.calls[0][1]).toMatchObject({
+          method: 'post',
+          contentType: 'application/x-www-form-urlencoded',
+          payload: 'x=y',
+        });
+      } finally {
+        delete (globalThis as any).UrlFetchApp;
+      }
+    });
+
+    it('wraps the global fetch API', async () => {
+      const original = globalThis.fetch;
+      const fetchMock = jest.fn().mockResolvedValue({
+        status: 404,
+        headers: new Map([['Retry-After', '1']]),
+        text: async () => '{"error":"missing"}',
+      });
+      (globalThis as any).fetch = fetchMock;
+
+      try {
+        const res = await fetchAdapter.send({ method: 'put', url: `${host}/x`, json: { a: 1 }, timeoutMs: 1000 });
+
+        expect(res).toEqual({ status: 404, headers: { 'retry-after': '1' }, data: { error: 'missing' } });
+        expect(fetchMock.mock.calls[0][1]).toMatchObject({
+          method: 'PUT',
+          body: '{"a":1}',
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } finally {
+        (globalThis as any).fetch = original;
+      }
+    });
+  });
+
+  describe('streaming', () => {
+    it('streams node responses as decoded text chunks', async () => {
+      nock(host).post('/stream', { q: 1 }).reply(200, 'data: héllo\n\n', { 'Content-Type': 'text/event-stream' });
+
+      const res = await requestStream({ method: 'post', url: `${host}/stream`, json: { q: 1 } });
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('text/event-stream');
+      expect(await readStreamText(res.body)).toBe('data: héllo\n\n');
+    });
+
+    it('reads fetch bodies incrementally, keeping split code points intact', async () => {
+      const original = globalThis.fetch;
+      const bytes = new TextEncoder().encode('é!');
+      const parts = [bytes.slice(0, 1), bytes.slice(1, 2), bytes.slice(2)];
+      (globalThis as any).fetch = jest.fn().mockResolvedValue({
+        status: 200,
+        headers: new Map([['Content-Type', 'text/plain']]),
+        body: {
+          getReader: () => ({
+            read: async () => (parts.length ? { done: false, value: parts.shift() } : { done: true }),
+          }),
+        },
+      });
+
+      try {
+        const res = await fetchAdapter.stream!({ method: 'get', url: `${host}/s`, timeoutMs: 1000 });
+        const chunks: string[] = [];
+        for await (const chunk of res.body) chunks.push(chunk);
+        expect(chunks).toEqual(['é', '!']);
+      } finally {
+        (globalThis as any).fetch = original;
+      }
+    });
+
+    it('buffers the body for adapters without streaming support', async () => {
+      const send = jest.fn().mockResolvedValue({ status: 200, headers: {}, data: 'all at once' });
+      setHttpAdapter({ name: 'buffered', send });
+
+      const res = await requestStream({ method: 'get', url: `${host}/s` });
+
+      expect(await readStreamText(res.body)).toBe('all at once');
+      expect(send.mock.calls[0][0].responseType).toBe('text');
+    });
+  });
+
+  describe('retries and hooks', () => {
+    const scripted = (...statuses: number[]): HttpAdapter => ({
+      name: 'scripted',
+      send: jest.fn(async () => ({ status: statuses.shift() ?? 200, headers: {}, data: {} })),
+    });
+
+    it('does not retry unless asked to', async () => {
+      const adapter = scripted(503, 200);
+      setHttpAdapter(adapter);
+
+      await expect(request({ method: 'get', url: 'u' })).resolves.toMatchObject({ status: 503 });
+      expect(adapter.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries retryable statuses and reports an exhausted budget', async () => {
+      const adapter = scripted(503, 429, 200);
+      setHttpAdapter(adapter);
+
+      const ok = await request({ method: 'get', url: 'u', retry: { baseDelayMs: 1 } });
+      expect(ok.status).toBe(200);
+      expect(adapter.send).toHaveBeenCalledTimes(3);
+
+      setHttpAdapter(scripted(429, 200));
+      const onBudgetExhausted = jest.fn();
+      const res = await request({
+        method: 'get',
+        url: 'u',
+        retry: { baseDelayMs: 1000, budget: { remainingMs: 0 }, retryOn: () => true, onBudgetExhausted },
+      });
+      expect(res.status).toBe(429);
+      expect(onBudgetExhausted).toHaveBeenCalledWith(expect.objectContaining({ status: 429, attempts: 1 }));
+    });
+
+    it('treats POST 5xx as non-retryable', () => {
+      expect(isRetryableStatus(429, { method: 'post' })).toBe(true);
+      expect(isRetryableStatus(500, { method: 'post' })).toBe(false);
+      expect(isRetryableStatus(500, { method: 'get' })).toBe(true);
+      expect(isRetryableStatus(404, { method: 'get' })).toBe(false);
+    });
+
+    it('invokes hooks and logs requests when enabled', async () => {
+      process.env.HTTP_LOG_REQUESTS = 'true';
+      const debugSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const seen: string[] = [];
+      const remove = addHttpHook({
+        onRequest: (req: HttpRequest, attempt: number) => seen.push(`req:${attempt}`),
+        onResponse: (_req, res) => seen.push(`res:${res.status}`),
+        onError: () => seen.push('error'),
+      });
+
+      setHttpAdapter(scripted(204));
+      await request({ method: 'get', url: 'https://x.test/path?token=secret' });
+
+      setHttpAdapter({ name: 'broken', send: () => Promise.reject(new Error('ECONNRESET')) });
+      await expect(request({ method: 'get', url: 'u' })).rejects.toThrow('ECONNRESET');
+
+      remove();
+      setHttpAdapter(scripted(200));
+      await request({ method: 'get', url: 'u' });
+
+      expect(seen).toEqual(['req:0', 'res:204', 'req:0', 'error']);
+      const logged = debugSpy.mock.calls.map((c) => String(c[0])).join('\n');
+      expect(logged).toContain('https://x.test/path');
+      expect(logged).not.toContain('secret');
+      debugSpy.mockRestore();
+    });
+  });
+
+  it('builds consistent HTTP errors', () => {
+    const err = httpError('Example API', { status: 418, headers: {}, data: { why: 'teapot' } });
+
+    expect(err.message).toBe('Example API returned HTTP 418');
+    expect(err.status).toBe(418);
+    expect(err.data).toEqual({ why: 'teapot' });
+  });
+});
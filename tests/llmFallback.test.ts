@@ -0,0 +1,149 @@
+import nock from 'nock';
+
+import { generateChat, streamChat } from '../src/llm/index';
+import {
+  acquireCircuit,
+  isCircuitOpen,
+  recordFailure,
+  recordSuccess,
+  resetCircuitBreakers,
+} from '../src/llm/circuitBreaker';
+
+const openaiReply = (content: string) => ({ choices: [{ message: { content } }] });
+const user = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('LLM fallback chain', () => {
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'oa';
+    process.env.ANTHROPIC_API_KEY = 'an';
+    process.env.OPENAI_COMPATIBLE_ENDPOINT = 'http://localhost:11434/v1';
+    process.env.OPENAI_COMPATIBLE_MODEL_ID = 'llama3.1:8b';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    resetCircuitBreakers();
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_ENDPOINT;
+    delete process.env.OPENAI_COMPATIBLE_MODEL_ID;
+    delete process.env.LLM_FALLBACK_CHAIN;
+    delete process.env.LLM_CIRCUIT_FAILURE_THRESHOLD;
+    delete process.env.LLM_CIRCUIT_COOLDOWN_MS;
+  });
+
+  it('fails over on 429 / 5xx and logs the provider that answered', async () => {
+    process.env.LLM_FALLBACK_CHAIN = 'openai:gpt-4o, anthropic, local';
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => body.model === 'gpt-4o')
+      .reply(429, {});
+    nock('https://api.anthropic.com').post('/v1/messages').reply(529, {});
+    nock('http://localhost:11434')
+      .post('/v1/chat/completions', (body) => body.model === 'llama3.1:8b')
+      .reply(200, openaiReply('local answer'));
+
+    await expect(generateChat(user)).resolves.toBe('local answer');
+
+    const answered = log.mock.calls.map((c) => String(c[0])).find((l) => l.includes('LLM answer generated'));
+    expect(JSON.parse(answered!).metadata).toMatchObject({ provider: 'openai-compatible', fallbackIndex: 2 });
+    jest.restoreAllMocks();
+  });
+
+  it('does not fail over on client errors', async () => {
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(401, {});
+
+    await expect(generateChat(user, { targets: ['openai', 'anthropic'] })).rejects.toThrow(/HTTP 401/);
+  });
+
+  it('throws the last error when every target fails', async () => {
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(500, {});
+    nock('https://api.anthropic.com').post('/v1/messages').reply(503, {});
+
+    await expect(generateChat(user, { targets: ['openai', { provider: 'anthropic' }] })).rejects.toThrow(
+      'Anthropic API returned HTTP 503',
+    );
+  });
+
+  it('skips providers whose circuit is open, but still tries them when all are open', async () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    recordFailure('openai');
+    expect(isCircuitOpen('openai')).toBe(true);
+
+    nock('https://api.anthropic.com').post('/v1/messages').reply(200, { content: [{ type: 'text', text: 'claude' }] });
+    await expect(generateChat(user, { targets: ['openai', 'anthropic'] })).resolves.toBe('claude');
+
+    recordFailure('anthropic');
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, openaiReply('recovered'));
+    await expect(generateChat(user, { targets: ['openai', 'anthropic'] })).resolves.toBe('recovered');
+    expect(isCircuitOpen('openai')).toBe(false);
+  });
+
+  it('lets a single trial call through once the cooldown has passed', () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    process.env.LLM_CIRCUIT_COOLDOWN_MS = '1000';
+
+    recordFailure('openai', 0);
+    expect(acquireCircuit('openai', 500)).toBe(false);
+
+    // Half-open: the first caller gets the trial, concurrent ones keep skipping.
+    expect(acquireCircuit('openai', 1000)).toBe(true);
+    expect(acquireCircuit('openai', 1001)).toBe(false);
+    expect(isCircuitOpen('openai', 1001)).toBe(true);
+
+    // A failed trial re-opens the circuit; an unreported one is released later.
+    recordFailure('openai', 1100);
+    expect(acquireCircuit('openai', 2000)).toBe(false);
+    expect(acquireCircuit('openai', 2100)).toBe(true);
+    expect(acquireCircuit('openai', 3100)).toBe(true);
+
+    recordSuccess('openai');
+    expect(acquireCircuit('openai', 3101)).toBe(true);
+    expect(acquireCircuit('openai', 3102)).toBe(true);
+  });
+
+  it('takes a half-open trial only for a target that is actually called', async () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    process.env.LLM_CIRCUIT_COOLDOWN_MS = '1000';
+    recordFailure('anthropic', Date.now() - 2000);
+
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, openaiReply('gpt'));
+    await expect(generateChat(user, { targets: ['openai', 'anthropic'] })).resolves.toBe('gpt');
+
+    expect(isCircuitOpen('anthropic')).toBe(false);
+    expect(acquireCircuit('anthropic')).toBe(true);
+  });
+
+  it('hands the trial back when it fails for a reason unrelated to provider health', async () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    process.env.LLM_CIRCUIT_COOLDOWN_MS = '1000';
+    recordFailure('openai', Date.now() - 2000);
+
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(400, { error: 'bad request' });
+    await expect(generateChat(user, { targets: ['openai', 'anthropic'] })).rejects.toThrow();
+
+    expect(acquireCircuit('openai')).toBe(true);
+  });
+
+  it('fails over a stream only before its first fragment', async () => {
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(502, 'bad gateway');
+    nock('https://api.anthropic.com').post('/v1/messages').reply(200, { content: [{ type: 'text', text: 'whole' }] });
+
+    const fragments: string[] = [];
+    for await (const f of streamChat(user, { targets: ['openai', 'anthropic'] })) fragments.push(f);
+    expect(fragments).toEqual(['whole']);
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, 'data: {"choices":[{"delta":{"content":"par"}}]}\n\ndata: {"error":{"message":"x"}}\n\n');
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const f of streamChat(user, { targets: ['openai', 'anthropic'] })) seen.push(f);
+      })(),
+    ).rejects.toThrow(/stream error/);
+    expect(seen).toEqual(['par']);
+  });
+});
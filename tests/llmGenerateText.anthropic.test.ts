@@ -0,0 +1,86 @@
+import nock from 'nock';
+
+import { generateText } from '../src/llm/index';
+
+describe('generateText – Anthropic provider', () => {
+  const base = 'https://api.anthropic.com';
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'ant-key';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_ENDPOINT;
+    delete process.env.ANTHROPIC_MODEL_ID;
+  });
+
+  it('throws when ANTHROPIC_API_KEY is missing', async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    await expect(generateText('Hi', { provider: 'anthropic' })).rejects.toThrow(/ANTHROPIC_API_KEY/);
+  });
+
+  it('sends a Messages API request with the system prompt and joins text blocks', async () => {
+    const scope = nock(base)
+      .post('/v1/messages', (body) => {
+        expect(body).toEqual({
+          model: 'claude-3-5-haiku-latest',
+          max_tokens: 1024,
+          temperature: 0.7,
+          messages: [{ role: 'user', content: 'Hello' }],
+          system: 'Be brief.',
+        });
+        return true;
+      })
+      .matchHeader('x-api-key', 'ant-key')
+      .matchHeader('anthropic-version', '2023-06-01')
+      .reply(200, {
+        content: [
+          { type: 'text', text: 'Hi ' },
+          { type: 'tool_use', id: 't1', name: 'noop', input: {} },
+          { type: 'text', text: 'there' },
+        ],
+        stop_reason: 'end_turn',
+      });
+
+    await expect(generateText('Hello', { provider: 'anthropic', systemPrompt: 'Be brief.' })).resolves.toBe(
+      'Hi there',
+    );
+    scope.done();
+  });
+
+  it('clamps max_tokens per model and temperature to 0–1', async () => {
+    process.env.ANTHROPIC_ENDPOINT = 'http://localhost:9998/v1/messages/';
+    process.env.ANTHROPIC_MODEL_ID = 'claude-3-haiku-20240307';
+
+    const scope = nock('http://localhost:9998')
+      .post('/v1/messages', (body) => {
+        expect(body).toMatchObject({ max_tokens: 4096, temperature: 1 });
+        expect(body).not.toHaveProperty('system');
+        return true;
+      })
+      .reply(200, { content: [{ type: 'text', text: 'ok' }] });
+
+    await expect(
+      generateText('x', { provider: 'anthropic', temperature: 1.5, maxTokens: 50_000 }),
+    ).resolves.toBe('ok');
+    scope.done();
+  });
+
+  it('maps error types, refusals and empty responses to clear messages', async () => {
+    nock(base)
+      .post('/v1/messages')
+      .reply(529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })
+      .post('/v1/messages')
+      .reply(200, { content: [], stop_reason: 'refusal' })
+      .post('/v1/messages')
+      .reply(200, { content: [] });
+
+    await expect(generateText('x', { provider: 'anthropic' })).rejects.toThrow(
+      'Anthropic API returned HTTP 529 (overloaded_error: API temporarily overloaded)',
+    );
+    await expect(generateText('x', { provider: 'anthropic' })).rejects.toThrow(/refusal/);
+    await expect(generateText('x', { provider: 'anthropic' })).rejects.toThrow(/missing text content/);
+  });
+});
@@ -12,8 +12,8 @@ describe('generateText – error branches & alternative providers', () => {
     await expect(generateText('Hello')).rejects.toThrow(/OPENAI_API_KEY/);
   });
 
-  it('throws when provider gemini is selected (not yet implemented)', async () => {
-    await expect(generateText('Hi', { provider: 'gemini' as any })).rejects.toThrow(/not implemented/i);
+  it('throws when gemini is selected without GEMINI_API_KEY', async () => {
+    await expect(generateText('Hi', { provider: 'gemini' })).rejects.toThrow(/GEMINI_API_KEY/);
   });
 
   it('bubbles up HTTP errors from the OpenAI endpoint', async () => {
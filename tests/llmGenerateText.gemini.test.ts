@@ -0,0 +1,86 @@
+import nock from 'nock';
+
+import { generateText } from '../src/llm/index';
+
+describe('generateText – Gemini provider', () => {
+  const base = 'https://generativelanguage.googleapis.com';
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'gem-key';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_ENDPOINT;
+    delete process.env.GEMINI_MODEL_ID;
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it('calls generateContent with the default model and joins the text parts', async () => {
+    const scope = nock(base)
+      .post('/v1beta/models/gemini-1.5-flash-8b:generateContent', (body) => {
+        expect(body).toEqual({
+          contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+          generationConfig: { temperature: 0.7, maxOutputTokens: 1024 },
+        });
+        return true;
+      })
+      .matchHeader('x-goog-api-key', 'gem-key')
+      .reply(200, {
+        candidates: [{ content: { parts: [{ text: 'Hi ' }, { text: 'there' }] }, finishReason: 'STOP' }],
+      });
+
+    await expect(generateText('Hello', { provider: 'gemini' })).resolves.toBe('Hi there');
+    scope.done();
+  });
+
+  it('uses LLM_PROVIDER and GEMINI_ENDPOINT, clamping options to model limits', async () => {
+    process.env.LLM_PROVIDER = 'gemini';
+    process.env.GEMINI_ENDPOINT = 'http://localhost:9999/stub/';
+    process.env.GEMINI_MODEL_ID = 'gemini-1.0-pro';
+
+    const scope = nock('http://localhost:9999')
+      .post('/stub/models/gemini-1.0-pro:generateContent', (body) => {
+        expect(body.generationConfig).toEqual({ temperature: 1, maxOutputTokens: 8192 });
+        expect(body.systemInstruction).toEqual({ parts: [{ text: 'sys' }] });
+        return true;
+      })
+      .reply(200, { candidates: [{ content: { parts: [{ text: 'ok' }] } }] });
+
+    await expect(generateText('x', { temperature: 5, maxTokens: 100_000, systemPrompt: 'sys' })).resolves.toBe('ok');
+    scope.done();
+  });
+
+  it('reports blocked prompts and withheld candidates', async () => {
+    nock(base)
+      .post(/generateContent/)
+      .reply(200, { promptFeedback: { blockReason: 'SAFETY' } })
+      .post(/generateContent/)
+      .reply(200, { candidates: [{ finishReason: 'RECITATION' }] })
+      .post(/generateContent/)
+      .reply(200, { candidates: [{ finishReason: 'STOP', content: { parts: [] } }] });
+
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow('Gemini blocked the prompt (SAFETY)');
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow(
+      'Gemini withheld the response (RECITATION)',
+    );
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow(/missing candidates/);
+  });
+
+  it('maps API error statuses to readable messages', async () => {
+    nock(base)
+      .post(/generateContent/)
+      .reply(429, { error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded' } })
+      .post(/generateContent/)
+      .reply(500, { error: { code: 500, status: 'INTERNAL' } })
+      .post(/generateContent/)
+      .reply(502, 'Bad Gateway');
+
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow(
+      'Gemini API returned HTTP 429 (RESOURCE_EXHAUSTED: quota or rate limit exceeded)',
+    );
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow('Gemini API returned HTTP 500 (INTERNAL)');
+    await expect(generateText('x', { provider: 'gemini' })).rejects.toThrow(/HTTP 502$/);
+  });
+});
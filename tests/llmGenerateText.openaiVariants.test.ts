@@ -0,0 +1,108 @@
+import nock from 'nock';
+
+import { generateText } from '../src/llm/index';
+
+const reply = (content: string) => ({ choices: [{ message: { role: 'assistant', content } }] });
+
+describe('generateText – Azure OpenAI provider', () => {
+  const resource = 'https://my-resource.openai.azure.com';
+
+  beforeEach(() => {
+    process.env.AZURE_OPENAI_API_KEY = 'az-key';
+    process.env.AZURE_OPENAI_ENDPOINT = `${resource}/`;
+    process.env.AZURE_OPENAI_DEPLOYMENT = 'gpt-4o';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.AZURE_OPENAI_API_KEY;
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    delete process.env.AZURE_OPENAI_API_VERSION;
+  });
+
+  it('calls the deployment URL with api-key and api-version, without a model field', async () => {
+    const scope = nock(resource)
+      .post('/openai/deployments/gpt-4o/chat/completions', (body) => {
+        expect(body).not.toHaveProperty('model');
+        expect(body.max_tokens).toBe(128_000);
+        return true;
+      })
+      .query({ 'api-version': '2024-06-01' })
+      .matchHeader('api-key', 'az-key')
+      .reply(200, reply('azure'));
+
+    await expect(generateText('Hi', { provider: 'azure-openai', maxTokens: 500_000 })).resolves.toBe('azure');
+    scope.done();
+  });
+
+  it('requires key, endpoint and deployment', async () => {
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    await expect(generateText('Hi', { provider: 'azure-openai' })).rejects.toThrow(/AZURE_OPENAI_DEPLOYMENT/);
+  });
+
+  it('honours AZURE_OPENAI_API_VERSION and names the service in errors', async () => {
+    process.env.AZURE_OPENAI_API_VERSION = '2025-01-01-preview';
+    nock(resource)
+      .post('/openai/deployments/gpt-4o/chat/completions')
+      .query({ 'api-version': '2025-01-01-preview' })
+      .reply(401, { error: { code: '401' } });
+
+    await expect(generateText('Hi', { provider: 'azure-openai' })).rejects.toThrow(
+      'Azure OpenAI API returned HTTP 401',
+    );
+  });
+});
+
+describe('generateText – OpenAI-compatible provider', () => {
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.OPENAI_COMPATIBLE_ENDPOINT;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_MODEL_ID;
+  });
+
+  it('requires an endpoint', async () => {
+    await expect(generateText('Hi', { provider: 'openai-compatible' })).rejects.toThrow(
+      /OPENAI_COMPATIBLE_ENDPOINT/,
+    );
+  });
+
+  it('sends no Authorization header without a key and discovers the model once', async () => {
+    process.env.OPENAI_COMPATIBLE_ENDPOINT = 'http://localhost:11434/v1/';
+
+    const scope = nock('http://localhost:11434', { badheaders: ['authorization'] })
+      .get('/v1/models')
+      .reply(200, { object: 'list', data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5' }] })
+      .post('/v1/chat/completions', (body) => body.model === 'llama3.1:8b')
+      .twice()
+      .reply(200, reply('local'));
+
+    await expect(generateText('Hi', { provider: 'openai-compatible' })).resolves.toBe('local');
+    await expect(generateText('Hi', { provider: 'openai-compatible' })).resolves.toBe('local');
+    scope.done();
+  });
+
+  it('uses the configured model and key', async () => {
+    process.env.OPENAI_COMPATIBLE_ENDPOINT = 'http://vllm.internal:8000/v1';
+    process.env.OPENAI_COMPATIBLE_API_KEY = 'vllm-key';
+    process.env.OPENAI_COMPATIBLE_MODEL_ID = 'mistral-7b';
+
+    const scope = nock('http://vllm.internal:8000')
+      .post('/v1/chat/completions', (body) => body.model === 'mistral-7b')
+      .matchHeader('authorization', 'Bearer vllm-key')
+      .reply(200, reply('vllm'));
+
+    await expect(generateText('Hi', { provider: 'openai-compatible' })).resolves.toBe('vllm');
+    scope.done();
+  });
+
+  it('explains an empty model listing', async () => {
+    process.env.OPENAI_COMPATIBLE_ENDPOINT = 'http://lmstudio:1234/v1';
+    nock('http://lmstudio:1234').get('/v1/models').reply(200, { data: [] });
+
+    await expect(generateText('Hi', { provider: 'openai-compatible' })).rejects.toThrow(
+      /OPENAI_COMPATIBLE_MODEL_ID/,
+    );
+  });
+});
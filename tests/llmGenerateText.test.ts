@@ -89,6 +89,27 @@ describe('generateText – OpenAI provider', () => {
     scope.done();
   });
 
+  it('sends systemPrompt as a leading system message, and none without it', async () => {
+    const bodies: any[] = [];
+    const scope = nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        bodies.push(body);
+        return true;
+      })
+      .times(2)
+      .reply(200, { choices: [{ message: { role: 'assistant', content: 'ok' } }] });
+
+    await generateText('With system', { systemPrompt: 'Be brief.' });
+    await generateText('Without system');
+
+    expect(bodies[0].messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'With system' },
+    ]);
+    expect(bodies[1].messages).toEqual([{ role: 'user', content: 'Without system' }]);
+    scope.done();
+  });
+
   it('falls back to OPENAI_ENDPOINT env var when opts.endpoint is absent', async () => {
     const prompt = 'Env endpoint';
     const envEndpoint = 'https://enterprise-openai.company.com/v1/chat/completions';
@@ -0,0 +1,73 @@
+import nock from 'nock';
+
+import { streamChat } from '../src/llm/index';
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const chunk of stream) out.push(chunk);
+  return out;
+}
+
+const sse = (...events: string[]) => events.map((e) => `data: ${e}\n\n`).join('');
+const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] });
+
+describe('streamChat', () => {
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'key';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  it('yields content deltas from OpenAI server-sent events until [DONE]', async () => {
+    const scope = nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => body.stream === true && body.model === 'gpt-4o-mini')
+      .matchHeader('accept', 'text/event-stream')
+      .reply(
+        200,
+        sse(
+          JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }),
+          delta('Hel'),
+          delta('lo'),
+          '[DONE]',
+          delta('ignored'),
+        ),
+        { 'Content-Type': 'text/event-stream' },
+      );
+
+    await expect(collect(streamChat([{ role: 'user', content: 'Hi' }]))).resolves.toEqual(['Hel', 'lo']);
+    scope.done();
+  });
+
+  it('raises HTTP errors and in-stream errors', async () => {
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(429, { error: { message: 'slow down' } })
+      .post('/v1/chat/completions')
+      .reply(200, sse(delta('partial'), JSON.stringify({ error: { message: 'server overloaded' } })))
+      .post('/v1/chat/completions')
+      .reply(200, sse('not json'));
+
+    await expect(collect(streamChat([{ role: 'user', content: 'Hi' }]))).rejects.toThrow(
+      'OpenAI API returned HTTP 429',
+    );
+    await expect(collect(streamChat([{ role: 'user', content: 'Hi' }]))).rejects.toThrow(
+      'OpenAI API stream error: server overloaded',
+    );
+    await expect(collect(streamChat([{ role: 'user', content: 'Hi' }]))).rejects.toThrow(/malformed event/);
+  });
+
+  it('yields the whole answer once for providers without streaming support', async () => {
+    process.env.GEMINI_API_KEY = 'gem';
+    nock('https://generativelanguage.googleapis.com')
+      .post(/generateContent/)
+      .reply(200, { candidates: [{ content: { parts: [{ text: 'complete' }] } }] });
+
+    await expect(collect(streamChat([{ role: 'user', content: 'Hi' }], { provider: 'gemini' }))).resolves.toEqual([
+      'complete',
+    ]);
+  });
+});
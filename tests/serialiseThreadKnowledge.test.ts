@@ -40,4 +40,64 @@ describe('serialiseThreadKnowledgeMarkdown', () => {
     expect(md).toMatch(/What is the capital/);
     expect(md).toMatch(/Paris is the capital/);
   });
+
+  it('lists other bots separately from corrections', () => {
+    const md = serialiseThreadKnowledgeMarkdown({
+      originalQuestion: { messageId: 'm1', authorId: 'user1', content: 'Q', timestamp: '2025-07-25T10:00:00Z' },
+      responses: [
+        {
+          aiResponse: { messageId: 'm2', authorId: 'bot/ai', content: 'A', timestamp: '2025-07-25T10:01:00Z' },
+          corrections: [],
+          otherBotMessages: [
+            { messageId: 'm3', authorId: 'JiraBot', content: 'Ticket linked', timestamp: '2025-07-25T10:02:00Z' },
+          ],
+        },
+      ],
+    });
+
+    expect(md).not.toMatch(/### Corrections/);
+    expect(md).toMatch(/### Other Bots\n- \(.+\) JiraBot: Ticket linked/);
+  });
+
+  it('renders attachments as links or inline summaries', () => {
+    const data: ThreadKnowledgeData = {
+      originalQuestion: {
+        messageId: 'm1',
+        authorId: 'user1',
+        content: 'Build fails, see this log file',
+        timestamp: '2025-07-25T10:00:00Z',
+        attachments: [
+          { name: 'build.log', contentType: 'text/plain', source: 'upload', url: 'https://dl/build.log' },
+          { name: 'screenshot.png', contentType: 'image/png', source: 'upload' },
+        ],
+      },
+      responses: [
+        {
+          aiResponse: {
+            messageId: 'm2',
+            authorId: 'bot/ai',
+            content: 'Clear the cache.',
+            timestamp: '2025-07-25T10:01:00Z',
+          },
+          corrections: [
+            {
+              messageId: 'm3',
+              authorId: 'user2',
+              content: 'Runbook here',
+              timestamp: '2025-07-25T10:02:00Z',
+              attachments: [{ name: 'Runbook', url: 'https://drive.google.com/open?id=D1', source: 'drive' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    const md = serialiseThreadKnowledgeMarkdown(data);
+
+    expect(md).toContain(
+      'Attachments: [build.log](https://dl/build.log) (text/plain), screenshot.png (image/png)'
+    );
+    expect(md).toContain('Runbook here (attachments: [Runbook](https://drive.google.com/open?id=D1))');
+    expect(md.match(/Attachments:/g)).toHaveLength(1);
+  });
 });
@@ -0,0 +1,35 @@
+import { parseSseStream, SseEvent } from '../src/utils/sse';
+
+async function collect(chunks: string[]): Promise<SseEvent[]> {
+  async function* source() {
+    yield* chunks;
+  }
+  const events: SseEvent[] = [];
+  for await (const evt of parseSseStream(source())) events.push(evt);
+  return events;
+}
+
+describe('parseSseStream', () => {
+  it('reassembles events split across chunks and line-ending styles', async () => {
+    const events = await collect(['data: {"a"', ':1}\r', '\n\r\n: keep-alive\n\nev', 'ent: done\rdata: x\r\rdata: [DONE]\n\n']);
+
+    expect(events).toEqual([
+      { event: 'message', data: '{"a":1}' },
+      { event: 'done', data: 'x' },
+      { event: 'message', data: '[DONE]' },
+    ]);
+  });
+
+  it('joins multi-line data, keeps the last id and flushes an unterminated event', async () => {
+    const events = await collect(['id: 7\ndata: one\ndata:two\nretry: 10\n\n', 'data: tail']);
+
+    expect(events).toEqual([
+      { event: 'message', data: 'one\ntwo', id: '7' },
+      { event: 'message', data: 'tail', id: '7' },
+    ]);
+  });
+
+  it('ignores events without data', async () => {
+    expect(await collect(['event: ping\n\n', ':comment\n'])).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import nock from 'nock';
+
+import { deleteMessage, getThreadMessages, updateMessage } from '../src/services/GoogleChatService';
+import {
+  clearThreadCache,
+  getCachedThread,
+  invalidateThread,
+  invalidateThreadsContaining,
+  putCachedThread,
+} from '../src/store/threadCache';
+
+describe('threadCache store', () => {
+  afterEach(() => {
+    clearThreadCache();
+    delete process.env.THREAD_CACHE;
+    delete process.env.THREAD_CACHE_MAX_THREADS;
+    delete process.env.THREAD_CACHE_TTL_SECONDS;
+  });
+
+  it('evicts the least recently used thread', () => {
+    process.env.THREAD_CACHE_MAX_THREADS = '2';
+
+    putCachedThread('t1', { messages: [1] });
+    putCachedThread('t2', { messages: [2] });
+    getCachedThread('t1'); // t1 becomes most recent
+    putCachedThread('t3', { messages: [3] });
+
+    expect(getCachedThread('t2')).toBeUndefined();
+    expect(getCachedThread('t1')?.messages).toEqual([1]);
+    expect(getCachedThread('t3')?.messages).toEqual([3]);
+  });
+
+  it('expires entries after the TTL', () => {
+    process.env.THREAD_CACHE_TTL_SECONDS = '10';
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    putCachedThread('t1', { messages: [] });
+    now.mockReturnValue(1_000_000 + 10_001);
+
+    expect(getCachedThread('t1')).toBeUndefined();
+    now.mockRestore();
+  });
+
+  it('invalidates by thread or contained message and can be disabled', () => {
+    putCachedThread('t1', { messages: [{ name: 'spaces/A/messages/1' }] });
+    putCachedThread('t2', { messages: [{ name: 'spaces/A/messages/10' }] });
+
+    invalidateThreadsContaining('spaces/A/messages/1');
+    expect(getCachedThread('t1')).toBeUndefined();
+    expect(getCachedThread('t2')).toBeDefined();
+
+    invalidateThread('t2');
+    expect(getCachedThread('t2')).toBeUndefined();
+
+    process.env.THREAD_CACHE = 'false';
+    putCachedThread('t3', { messages: [] });
+    expect(getCachedThread('t3')).toBeUndefined();
+  });
+
+  it('uses CacheService under Apps Script', () => {
+    const store = new Map<string, string>();
+    const cache = {
+      get: jest.fn((k: string) => store.get(k) ?? null),
+      put: jest.fn((k: string, v: string) => store.set(k, v)),
+      remove: jest.fn((k: string) => store.delete(k)),
+    };
+    (globalThis as any).CacheService = { getScriptCache: () => cache };
+
+    try {
+      putCachedThread('t1', { messages: ['a'] });
+      expect(cache.put).toHaveBeenCalledWith('thread:t1', JSON.stringify({ messages: ['a'] }), 300);
+      expect(getCachedThread('t1')?.messages).toEqual(['a']);
+
+      putCachedThread('big', { messages: ['x'.repeat(100_000)] });
+      expect(store.has('thread:big')).toBe(false);
+
+      store.set('thread:bad', '{not json');
+      expect(getCachedThread('bad')).toBeUndefined();
+      expect(cache.remove).toHaveBeenCalledWith('thread:bad');
+
+      invalidateThreadsContaining('a'); // no-op – CacheService cannot enumerate keys
+      invalidateThread('t1');
+      expect(store.has('thread:t1')).toBe(false);
+    } finally {
+      delete (globalThis as any).CacheService;
+    }
+  });
+});
+
+describe('getThreadMessages – incremental fetch', () => {
+  const basePath = 'https://chat.googleapis.com';
+  const threadPath = '/v1/spaces/AAA/threads/BBB/messages';
+  const thread = 'spaces/AAA/threads/BBB';
+
+  beforeEach(() => {
+    process.env.GOOGLE_CHAT_ACCESS_TOKEN = 'token';
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+    clearThreadCache();
+  });
+
+  it('fetches only messages from just before the newest cached one, without duplicates', async () => {
+    nock(basePath)
+      .get(threadPath)
+      .query((q) => !q.filter)
+      .reply(200, {
+        messages: [
+          { name: 'm1', text: 'one', createTime: '2025-07-25T10:00:00Z' },
+          { name: 'm2', text: 'two', createTime: '2025-07-25T11:00:00Z' },
+        ],
+      });
+    expect(await getThreadMessages(thread)).toHaveLength(2);
+
+    const incremental = nock(basePath)
+      .get(threadPath)
+      .query((q) => q.filter === 'createTime > "2025-07-25T10:59:59.999Z"' && !q.orderBy)
+      .reply(200, {
+        messages: [
+          // m2 again, plus m2b created in the same instant.
+          { name: 'm2', text: 'two', createTime: '2025-07-25T11:00:00Z' },
+          { name: 'm2b', text: 'two too', createTime: '2025-07-25T11:00:00Z' },
+          { name: 'm3', text: 'three', createTime: '2025-07-25T12:00:00Z' },
+        ],
+      });
+
+    const msgs = await getThreadMessages(thread);
+    incremental.done();
+    expect(msgs.map((m) => m.name)).toEqual(['m1', 'm2', 'm2b', 'm3']);
+
+    nock(basePath).get(threadPath).query(true).reply(200, {});
+    expect((await getThreadMessages(thread, 2)).map((m) => m.name)).toEqual(['m2b', 'm3']);
+  });
+
+  it('does not cache limited fetches', async () => {
+    nock(basePath)
+      .get(threadPath)
+      .query((q) => q.orderBy === 'DESC')
+      .reply(200, { messages: [{ name: 'm9', createTime: '2025-07-25T12:00:00Z' }] });
+
+    await getThreadMessages(thread, 1);
+    expect(getCachedThread(thread)).toBeUndefined();
+  });
+
+  it('invalidates the cached thread when one of its messages is edited or deleted', async () => {
+    putCachedThread(thread, {
+      messages: [{ name: 'spaces/AAA/messages/1', createTime: '2025-07-25T10:00:00Z' }],
+      latestCreateTime: '2025-07-25T10:00:00Z',
+    });
+
+    nock(basePath)
+      .patch('/v1/spaces/AAA/messages/1')
+      .query(true)
+      .reply(200, { name: 'spaces/AAA/messages/1', thread: { name: thread } });
+    await updateMessage('spaces/AAA/messages/1', { text: 'edited' });
+    expect(getCachedThread(thread)).toBeUndefined();
+
+    putCachedThread(thread, { messages: [{ name: 'spaces/AAA/messages/1' }] });
+    nock(basePath).patch('/v1/spaces/AAA/messages/1').query(true).reply(200, { name: 'spaces/AAA/messages/1' });
+    await updateMessage('spaces/AAA/messages/1', { text: 'again' });
+    expect(getCachedThread(thread)).toBeUndefined();
+
+    putCachedThread(thread, { messages: [{ name: 'spaces/AAA/messages/1' }] });
+    nock(basePath).delete('/v1/spaces/AAA/messages/1').reply(200, {});
+    await deleteMessage('spaces/AAA/messages/1');
+    expect(getCachedThread(thread)).toBeUndefined();
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  extractChatAttachments,
   parseThreadMessages,
   RawThreadMessage,
   ThreadKnowledgeData,
@@ -61,7 +62,79 @@ describe('parseThreadMessages', () => {
     expect(res.responses[0].corrections[0].content).toBe('Correction to bot');
   });
 
+  it('keeps other bots apart from human corrections', () => {
+    const msgs: RawThreadMessage[] = [
+      mkMsg(1, { content: 'Question' }),
+      mkMsg(2, { authorId: 'JiraBot', content: 'Ticket created', role: 'bot' }), // before AI – ignored
+      mkMsg(3, { authorId: 'KnowledgeBot', content: 'Answer', role: 'assistant', isBot: false }),
+      mkMsg(4, { authorId: 'JiraBot', content: 'Ticket linked', role: 'bot' }),
+      mkMsg(5, { authorId: 'user5', content: 'Correction', role: 'human' }),
+    ];
+
+    const res = parseThreadMessages(msgs);
+    expect(res.responses).toHaveLength(1);
+    expect(res.responses[0].aiResponse.role).toBe('assistant');
+    expect(res.responses[0].corrections.map((c) => c.content)).toEqual(['Correction']);
+    expect(res.responses[0].otherBotMessages?.map((m) => m.content)).toEqual(['Ticket linked']);
+    expect(res.originalQuestion.role).toBe('human');
+  });
+
   it('throws when given an empty array', () => {
     expect(() => parseThreadMessages([])).toThrow();
   });
+
+  it('carries attachments through to the summaries', () => {
+    const attachments = [{ name: 'log.txt', source: 'upload' as const }];
+    const res = parseThreadMessages([mkMsg(1, { content: 'see this log file', attachments })]);
+
+    expect(res.originalQuestion.attachments).toEqual(attachments);
+    expect(parseThreadMessages([mkMsg(1, { attachments: [] })]).originalQuestion).not.toHaveProperty(
+      'attachments'
+    );
+  });
+});
+
+describe('extractChatAttachments', () => {
+  it('maps uploads, Drive files and rich links without duplicates', () => {
+    const result = extractChatAttachments({
+      attachment: [
+        {
+          name: 'spaces/A/messages/M/attachments/1',
+          contentName: 'error.log',
+          contentType: 'text/plain',
+          source: 'UPLOADED_CONTENT',
+          downloadUri: 'https://chat.google.com/dl/1',
+        },
+        { contentName: 'Runbook', source: 'DRIVE_FILE', driveDataRef: { driveFileId: 'D1' } },
+        {},
+      ],
+      annotations: [
+        { type: 'USER_MENTION' },
+        { type: 'RICH_LINK', richLinkMetadata: { uri: 'https://drive.google.com/open?id=D1', richLinkType: 'DRIVE_FILE' } },
+        {
+          type: 'RICH_LINK',
+          richLinkMetadata: {
+            uri: 'https://docs.google.com/doc/2',
+            richLinkType: 'DRIVE_FILE',
+            driveLinkData: { mimeType: 'application/vnd.google-apps.document' },
+          },
+        },
+        { type: 'RICH_LINK', richLinkMetadata: { uri: 'https://example.com/x' } },
+      ],
+    });
+
+    expect(result).toEqual([
+      { name: 'error.log', contentType: 'text/plain', url: 'https://chat.google.com/dl/1', source: 'upload' },
+      { name: 'Runbook', contentType: undefined, url: 'https://drive.google.com/open?id=D1', source: 'drive' },
+      { name: 'attachment', contentType: undefined, url: undefined, source: 'upload' },
+      {
+        name: 'https://docs.google.com/doc/2',
+        contentType: 'application/vnd.google-apps.document',
+        url: 'https://docs.google.com/doc/2',
+        source: 'drive',
+      },
+      { name: 'https://example.com/x', contentType: undefined, url: 'https://example.com/x', source: 'link' },
+    ]);
+    expect(extractChatAttachments({})).toEqual([]);
+  });
 });
@@ -0,0 +1,112 @@
+import { clearBpeRanks, countBpeTokens, preTokenize, registerBpeRanks } from '../src/llm/bpe';
+import {
+  createBpeEstimator,
+  createCharEstimator,
+  getChainTokenEstimator,
+  getTokenEstimator,
+  setTokenEstimator,
+} from '../src/llm/tokenEstimator';
+
+/** Build a tiktoken-format file from tokens listed in rank order. */
+function tiktokenFile(tokens: string[]): string {
+  return tokens.map((tok, rank) => `${Buffer.from(tok, 'latin1').toString('base64')} ${rank}`).join('\n');
+}
+
+const TOY_RANKS = tiktokenFile(['a', 'b', 'c', ' ', 'ab', 'abc', ' abc', 'user']);
+
+describe('bpe tokenizer', () => {
+  afterEach(() => {
+    clearBpeRanks();
+  });
+
+  it('pre-tokenizes like tiktoken', () => {
+    expect(preTokenize("Hello world's 12345!!\n")).toEqual(['Hello', ' world', "'s", ' ', '123', '45', '!!\n']);
+    expect(preTokenize('HelloWorld', 'o200k_base')).toEqual(['Hello', 'World']);
+  });
+
+  it('merges byte pairs in rank order once ranks are registered', () => {
+    registerBpeRanks('cl100k_base', TOY_RANKS);
+
+    // "abc" is a single token; " abcab" merges to " abc" + "ab".
+    expect(countBpeTokens('abc abcab')).toBe(3);
+    // Bytes without a rank still count one token each.
+    expect(countBpeTokens('zz')).toBe(2);
+  });
+
+  it('merges the UTF-8 bytes of multi-byte characters', () => {
+    const utf8 = (text: string) => Buffer.from(text, 'utf8').toString('latin1');
+    registerBpeRanks('cl100k_base', tiktokenFile([utf8('é'), utf8('😀'), utf8('中')]));
+
+    expect(countBpeTokens('é')).toBe(1);
+    expect(countBpeTokens('😀')).toBe(1);
+    expect(countBpeTokens('中')).toBe(1);
+    expect(countBpeTokens('ß')).toBe(2); // two unranked bytes
+  });
+
+  it('matches tiktoken counts with the shipped cl100k_base ranks', () => {
+    expect(countBpeTokens('hello world')).toBe(2);
+    expect(countBpeTokens('tiktoken is great!')).toBe(6);
+    expect(countBpeTokens("Hello world's 12345!!\n")).toBe(7);
+    expect(countBpeTokens('function foo(a, b) {\n  return a + b; // sum\n}\n')).toBe(17);
+    expect(countBpeTokens('日本語のテキストです。中文文本。한국어')).toBe(19);
+    expect(countBpeTokens('')).toBe(0);
+  });
+
+  it('matches tiktoken counts with the shipped o200k_base ranks', () => {
+    expect(countBpeTokens('hello world', 'o200k_base')).toBe(2);
+    expect(countBpeTokens('tiktoken is great!', 'o200k_base')).toBe(6);
+    expect(countBpeTokens("Hello world's 12345!!\n", 'o200k_base')).toBe(6);
+    expect(countBpeTokens('日本語のテキストです。中文文本。한국어', 'o200k_base')).toBe(13);
+  });
+});
+
+describe('token estimators', () => {
+  afterEach(() => {
+    clearBpeRanks();
+    setTokenEstimator(null);
+  });
+
+  it('counts OpenAI chat framing exactly', () => {
+    registerBpeRanks('cl100k_base', TOY_RANKS);
+    const estimator = createBpeEstimator('cl100k_base');
+
+    // 3 framing + "user" + "abc", plus 1 + "ab" for the name.
+    expect(estimator.countMessage({ role: 'user', content: 'abc' })).toBe(5);
+    expect(estimator.countMessage({ role: 'user', content: 'abc', name: 'ab' })).toBe(7);
+    expect(estimator.replyPriming).toBe(3);
+  });
+
+  it('weights punctuation, CJK and other non-ASCII text in the char estimate', () => {
+    const estimator = createCharEstimator(4);
+
+    expect(estimator.countText('abcdefgh')).toBe(2);
+    expect(estimator.countText('a.b,c')).toBe(2); // 3 / 4 + 2 × 0.5
+    expect(estimator.countText('日本語')).toBe(3);
+    expect(estimator.countText('éé')).toBe(1);
+    expect(estimator.countMessage({ role: 'user', content: 'abcd', name: 'Bo' })).toBe(4 + 1 + 2); // framing + content + "[Bo] "
+  });
+
+  it('takes the largest count across a fallback chain', () => {
+    const chain = getChainTokenEstimator([{ provider: 'openai', modelId: 'gpt-4o' }, { provider: 'anthropic' }]);
+    const anthropic = getTokenEstimator({ provider: 'anthropic' });
+    const openai = getTokenEstimator({ provider: 'openai', modelId: 'gpt-4o' });
+    const message = { role: 'user' as const, content: 'the quick brown fox jumps', name: 'Bo' };
+
+    expect(chain.countMessage(message)).toBe(Math.max(anthropic.countMessage(message), openai.countMessage(message)));
+    expect(chain.countText('日本語')).toBe(Math.max(anthropic.countText('日本語'), openai.countText('日本語')));
+  });
+
+  it('picks an estimator per provider and model, unless overridden', () => {
+    registerBpeRanks('o200k_base', TOY_RANKS);
+
+    // o200k (toy ranks) for GPT-4o; GPT-4 keeps the shipped cl100k ranks.
+    expect(getTokenEstimator({ provider: 'openai', modelId: 'gpt-4o-mini' }).countText('abcabc')).toBe(2);
+    expect(getTokenEstimator({ provider: 'azure-openai', modelId: 'gpt-4' }).countText('tiktoken is great!')).toBe(6);
+    expect(getTokenEstimator({ provider: 'anthropic' }).countText('abcdefg')).toBe(2);
+    expect(getTokenEstimator({ provider: 'gemini' }).countText('abcdefg')).toBe(2);
+
+    const custom = { countText: () => 42, countMessage: () => 42, replyPriming: 0 };
+    setTokenEstimator(custom);
+    expect(getTokenEstimator({ provider: 'gemini' })).toBe(custom);
+  });
+});